@@ -4,11 +4,11 @@ import {
   Search, Plus, Upload, Moon, Sun, Menu, 
   Trash2, Edit2, Loader2, Cloud, CheckCircle2, AlertCircle,
   Pin, Settings, Lock, CloudCog, Github, GitFork, MoreVertical,
-  QrCode, Copy, LayoutGrid, List, Check, ExternalLink, ArrowRight
+  QrCode, Copy, LayoutGrid, List, Check, ExternalLink, ArrowRight, LogOut
 } from 'lucide-react';
 import { 
     LinkItem, Category, DEFAULT_CATEGORIES, INITIAL_LINKS, 
-    WebDavConfig, AIConfig, SiteSettings, SearchEngine, DEFAULT_SEARCH_ENGINES 
+    WebDavConfig, AIConfig, SiteSettings, SearchEngine, DEFAULT_SEARCH_ENGINES, SpaceInfo, AuditReason, LinkHealth, BackupState 
 } from './types';
 import Icon from './components/Icon';
 import LinkModal from './components/LinkModal';
@@ -19,15 +19,28 @@ import CategoryAuthModal from './components/CategoryAuthModal';
 import ImportModal from './components/ImportModal';
 import SettingsModal from './components/SettingsModal';
 import SearchSettingsModal from './components/SearchSettingsModal';
+import ConflictModal from './components/ConflictModal';
+import SpaceSwitcher from './components/SpaceSwitcher';
+import QrCodeModal from './components/QrCodeModal';
+import { authHeaders, describeDevice, throttleMessage } from './services/authService';
+import { patchLink, deleteLink, deleteCategory, reorderCategories, revisionFromResponse } from './services/apiService';
+import { SyncSnapshot, MergeResult, ConflictChoice, mergeAppData, resolveConflicts } from './services/mergeService';
+import { DEFAULT_SPACE, isDefaultSpace, spacePath, spaceStorageKey, spaceUrl } from './services/spaceService';
+import { isImageIcon, linkIcon } from './services/faviconService';
+import { SyncData, recordLocalChanges } from './services/syncService';
 
 const GITHUB_REPO_URL = 'https://github.com/sese972010/CloudNav-';
 
-const LOCAL_STORAGE_KEY = 'cloudnav_data_cache';
-const AUTH_KEY = 'cloudnav_auth_token';
-const WEBDAV_CONFIG_KEY = 'cloudnav_webdav_config';
+// Cached data, session and backup target belong to the space this page is showing
+const LOCAL_STORAGE_KEY = spaceStorageKey('cloudnav_data_cache');
+const AUTH_KEY = spaceStorageKey('cloudnav_auth_token');
+const WEBDAV_CONFIG_KEY = spaceStorageKey('cloudnav_webdav_config');
 const AI_CONFIG_KEY = 'cloudnav_ai_config';
 const SEARCH_ENGINES_KEY = 'cloudnav_search_engines';
 
+// Category passwords are write-only: send them once, keep only the lock flag locally
+const withoutPasswords = (cats: Category[]): Category[] => cats.map(({ password, ...c }) => password ? { ...c, locked: true } : c);
+
 function App() {
   // --- State ---
   const [links, setLinks] = useState<LinkItem[]>([]);
@@ -52,6 +65,7 @@ function App() {
 
   const [darkMode, setDarkMode] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [spaces, setSpaces] = useState<SpaceInfo[]>([]);
   
   // Site Settings - Initialized with defaults to prevent crash
   const [siteSettings, setSiteSettings] = useState<SiteSettings>({
@@ -66,7 +80,8 @@ function App() {
   // Context Menu State
   const [contextMenu, setContextMenu] = useState<{ x: number, y: number, link: LinkItem | null } | null>(null);
   
-  const [qrCodeLink, setQrCodeLink] = useState<LinkItem | null>(null);
+  // Any URL can be shown as a QR code: a link, or a category's share URL
+  const [qrCode, setQrCode] = useState<{ title: string; url: string } | null>(null);
 
   const [unlockedCategoryIds, setUnlockedCategoryIds] = useState<Set<string>>(new Set());
 
@@ -114,6 +129,11 @@ function App() {
   
   const [syncStatus, setSyncStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [authToken, setAuthToken] = useState<string>('');
+  const [syncConflict, setSyncConflict] = useState<MergeResult | null>(null);
+  const syncBaseRef = useRef<SyncSnapshot | null>(null);
+  const syncQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // The data the WebDAV sync journal last saw; null until there is any besides the built-in defaults
+  const journaledRef = useRef<SyncData | null>(null);
 
   const mainRef = useRef<HTMLDivElement>(null);
   const isAutoScrollingRef = useRef(false);
@@ -129,6 +149,7 @@ function App() {
         const parsed = JSON.parse(stored);
         setLinks(parsed.links || INITIAL_LINKS);
         setCategories(parsed.categories || DEFAULT_CATEGORIES);
+        journaledRef.current = { links: parsed.links || INITIAL_LINKS, categories: parsed.categories || DEFAULT_CATEGORIES };
         if (parsed.settings) setSiteSettings(prev => ({ ...prev, ...parsed.settings }));
       } catch (e) {
         setLinks(INITIAL_LINKS);
@@ -140,27 +161,101 @@ function App() {
     }
   };
 
-  const syncToCloud = async (newLinks: LinkItem[], newCategories: Category[], newSettings: SiteSettings, token: string) => {
+  // Two-way WebDAV sync needs to know when each item changed here, and what was deleted, also when
+  // the change came from elsewhere (another device, the extension, the API, a restore)
+  const journalChanges = (next: SyncData, fallbackBase?: SyncData) => {
+    const base = journaledRef.current || fallbackBase;
+    if (base) recordLocalChanges(base, next);
+    journaledRef.current = next;
+  };
+
+  const applyCloudData = (data: SyncSnapshot) => {
+    // Without cached data the first download is only the starting point, not a change
+    journalChanges({ links: data.links, categories: data.categories || DEFAULT_CATEGORIES });
+    setLinks(data.links);
+    setCategories(data.categories || DEFAULT_CATEGORIES);
+    if (data.settings) setSiteSettings(prev => ({ ...prev, ...data.settings }));
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data));
+    // Remember what the server had, as the base for merging if a later save conflicts
+    syncBaseRef.current = { ...data, categories: data.categories || [] };
+  };
+
+  const saveLocalState = (newLinks: LinkItem[], newCategories: Category[], newSettings: SiteSettings) => {
+      const localCategories = withoutPasswords(newCategories);
+      journalChanges({ links: newLinks, categories: localCategories }, { links, categories });
+      setLinks(newLinks);
+      setCategories(localCategories);
+      setSiteSettings(newSettings);
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({ links: newLinks, categories: localCategories, settings: newSettings }));
+  };
+
+  // `reason` is recorded in the audit log to tell bulk replacements apart from ordinary edits
+  const postToCloud = (snapshot: SyncSnapshot, token: string, reason?: AuditReason) => {
+      return fetch(spaceUrl('/api/storage'), {
+          method: 'POST',
+          headers: {
+              'Content-Type': 'application/json',
+              'If-Match': `"${syncBaseRef.current?.revision || 0}"`,
+              ...(reason ? { 'X-Audit-Reason': reason } : {}),
+              ...authHeaders(token)
+          },
+          body: JSON.stringify({ links: snapshot.links, categories: snapshot.categories, settings: snapshot.settings })
+      });
+  };
+
+  const expireAuth = () => {
+      setAuthToken('');
+      localStorage.removeItem(AUTH_KEY);
+      setIsAuthOpen(true);
+      setSyncStatus('error');
+  };
+
+  // The server lists every field it rejected; show the first few
+  const reportRejectedSave = async (response: Response) => {
+      const { error, fields } = await response.json().catch(() => ({}));
+      console.error('Save rejected by server', error, fields);
+      const details = (fields || []).slice(0, 5).map((f: { field: string; message: string }) => `${f.field} ${f.message}`);
+      alert(`保存失败，数据校验未通过：\n${details.join('\n') || error || ''}`);
+  };
+
+  const syncToCloud = async (newLinks: LinkItem[], newCategories: Category[], newSettings: SiteSettings, token: string, reason?: AuditReason) => {
     setSyncStatus('saving');
     try {
-        const response = await fetch('/api/storage', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'x-auth-password': token
-            },
-            body: JSON.stringify({ links: newLinks, categories: newCategories, settings: newSettings })
-        });
+        let snapshot: SyncSnapshot = { links: newLinks, categories: newCategories, settings: newSettings };
+        let response = await postToCloud(snapshot, token, reason);
+
+        if (response.status === 409) {
+            // Someone else saved first: merge our changes onto theirs
+            const { data: remote } = await response.json();
+            const result = mergeAppData(syncBaseRef.current || { links: [], categories: [] }, snapshot, remote);
+            syncBaseRef.current = remote;
+
+            if (result.conflicts.length > 0) {
+                setSyncConflict(result);
+                setSyncStatus('error');
+                return false;
+            }
+
+            snapshot = result.merged;
+            saveLocalState(snapshot.links, snapshot.categories, snapshot.settings || newSettings);
+            response = await postToCloud(snapshot, token, reason);
+        }
 
         if (response.status === 401) {
-            setAuthToken('');
-            localStorage.removeItem(AUTH_KEY);
-            setIsAuthOpen(true);
+            expireAuth();
+            return false;
+        }
+
+        if (response.status === 400) {
+            await reportRejectedSave(response);
             setSyncStatus('error');
             return false;
         }
 
         if (!response.ok) throw new Error('Network response was not ok');
+
+        const { revision } = await response.json();
+        syncBaseRef.current = { ...snapshot, categories: withoutPasswords(snapshot.categories), revision };
         
         setSyncStatus('saved');
         setTimeout(() => setSyncStatus('idle'), 2000);
@@ -172,16 +267,69 @@ function App() {
     }
   };
 
-  const updateData = (newLinks: LinkItem[], newCategories: Category[], newSettings: SiteSettings = siteSettings) => {
-      setLinks(newLinks);
-      setCategories(newCategories);
-      setSiteSettings(newSettings);
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({ links: newLinks, categories: newCategories, settings: newSettings }));
+  const updateData = (newLinks: LinkItem[], newCategories: Category[], newSettings: SiteSettings = siteSettings, reason?: AuditReason) => {
+      saveLocalState(newLinks, newCategories, newSettings);
       if (authToken) {
-          syncToCloud(newLinks, newCategories, newSettings, authToken);
+          // Saves run one after another so each carries the revision returned by the previous one
+          syncQueueRef.current = syncQueueRef.current.then(() => syncToCloud(newLinks, newCategories, newSettings, authToken, reason));
       }
   };
 
+  /**
+   * Sends a single-item change through the resource routes. The merge base only
+   * follows along when nobody else wrote in between; otherwise the next full
+   * sync gets a 409 and merges as usual.
+   */
+  const syncChange = (send: (token: string) => Promise<Response>, applyToBase: (base: SyncSnapshot) => SyncSnapshot) => {
+      const token = authToken;
+      syncQueueRef.current = syncQueueRef.current.then(async () => {
+          setSyncStatus('saving');
+          try {
+              const response = await send(token);
+              if (response.status === 401) {
+                  expireAuth();
+                  return;
+              }
+              if (response.status === 400) {
+                  await reportRejectedSave(response);
+                  setSyncStatus('error');
+                  return;
+              }
+              if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+              const revision = revisionFromResponse(response);
+              const base = syncBaseRef.current;
+              if (base && revision === (base.revision || 0) + 1) {
+                  syncBaseRef.current = { ...applyToBase(base), revision };
+              }
+
+              setSyncStatus('saved');
+              setTimeout(() => setSyncStatus('idle'), 2000);
+          } catch (error) {
+              console.error("Sync failed", error);
+              setSyncStatus('error');
+          }
+      });
+  };
+
+  // The server stores check results without a new revision, so only local state and the merge base take them
+  const handleLinksChecked = (results: Record<string, LinkHealth>) => {
+      const withHealth = (list: LinkItem[]) => list.map(l => results[l.id] ? { ...l, health: results[l.id] } : l);
+      setLinks(prev => {
+          const next = withHealth(prev);
+          localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({ links: next, categories, settings: siteSettings }));
+          return next;
+      });
+      if (syncBaseRef.current) syncBaseRef.current = { ...syncBaseRef.current, links: withHealth(syncBaseRef.current.links) };
+  };
+
+  const handleResolveConflict = (choices: Record<string, ConflictChoice>) => {
+      if (!syncConflict) return;
+      const resolved = resolveConflicts(syncConflict, choices);
+      setSyncConflict(null);
+      updateData(resolved.links, resolved.categories, resolved.settings || siteSettings, 'conflict-merge');
+  };
+
   useEffect(() => {
     if (localStorage.getItem('theme') === 'dark' || (!('theme' in localStorage) && window.matchMedia('(prefers-color-scheme: dark)').matches)) {
       setDarkMode(true);
@@ -213,14 +361,24 @@ function App() {
 
     const initData = async () => {
         try {
-            const res = await fetch('/api/storage');
+            // Only an authenticated request receives links from locked categories
+            let res = await fetch(spaceUrl('/api/storage'), {
+                headers: savedToken ? authHeaders(savedToken) : undefined
+            });
+            if (res.status === 401) {
+                setAuthToken('');
+                localStorage.removeItem(AUTH_KEY);
+                res = await fetch(spaceUrl('/api/storage'));
+            }
+            if (res.status === 404 && !isDefaultSpace()) {
+                alert('该空间不存在，将返回默认空间');
+                window.location.href = spacePath(DEFAULT_SPACE);
+                return;
+            }
             if (res.ok) {
                 const data = await res.json();
                 if (data.links && data.links.length > 0) {
-                    setLinks(data.links);
-                    setCategories(data.categories || DEFAULT_CATEGORIES);
-                    if (data.settings) setSiteSettings(prev => ({ ...prev, ...data.settings }));
-                    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data));
+                    applyCloudData(data);
                     return;
                 }
             } 
@@ -231,6 +389,11 @@ function App() {
     };
 
     initData();
+
+    fetch('/api/spaces')
+        .then(res => res.ok ? res.json() : { spaces: [] })
+        .then(data => setSpaces(data.spaces || []))
+        .catch(() => {});
   }, []);
 
   useEffect(() => {
@@ -312,22 +475,34 @@ function App() {
   };
 
   // --- Handlers ---
-  const handleLogin = async (password: string): Promise<boolean> => {
+  const handleLogin = async (password: string): Promise<boolean | string> => {
       try {
-        const response = await fetch('/api/storage', {
+        // Exchange the password for a session token; only the token is kept in localStorage
+        const loginRes = await fetch(spaceUrl('/api/auth/login'), {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'x-auth-password': password
-            },
-            body: JSON.stringify({ links, categories, settings: siteSettings })
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ password, device: describeDevice() })
+        });
+        if (!loginRes.ok) return throttleMessage(loginRes) || false;
+        const { token } = await loginRes.json();
+
+        // Re-read so the full document (including locked categories) replaces the public view
+        const response = await fetch(spaceUrl('/api/storage'), {
+            headers: authHeaders(token)
         });
         
         if (response.ok) {
-            setAuthToken(password);
-            localStorage.setItem(AUTH_KEY, password);
+            const data = await response.json();
+            setAuthToken(token);
+            localStorage.setItem(AUTH_KEY, token);
             setIsAuthOpen(false);
-            setSyncStatus('saved');
+            if (data.links && data.links.length > 0) {
+                applyCloudData(data);
+                setSyncStatus('saved');
+            } else {
+                // Empty cloud storage: seed it with what this device has
+                await syncToCloud(links, categories, siteSettings, token);
+            }
             return true;
         }
         return false;
@@ -336,6 +511,23 @@ function App() {
       }
   };
 
+  const handleLogout = async () => {
+      if (authToken) {
+          fetch(spaceUrl('/api/auth/logout'), { method: 'POST', headers: authHeaders(authToken) }).catch(() => {});
+      }
+      setAuthToken('');
+      localStorage.removeItem(AUTH_KEY);
+      setUnlockedCategoryIds(new Set());
+
+      // Drop links from locked categories by switching back to the public view
+      try {
+          const res = await fetch(spaceUrl('/api/storage'));
+          if (res.ok) applyCloudData(await res.json());
+      } catch (e) {
+          console.warn("Failed to reload public data after logout.", e);
+      }
+  };
+
   const handleImportConfirm = (newLinks: LinkItem[], newCategories: Category[]) => {
       const mergedCategories = [...categories];
       newCategories.forEach(nc => {
@@ -344,7 +536,7 @@ function App() {
           }
       });
       const mergedLinks = [...links, ...newLinks];
-      updateData(mergedLinks, mergedCategories);
+      updateData(mergedLinks, mergedCategories, siteSettings, 'import');
       setIsImportModalOpen(false);
       alert(`成功导入 ${newLinks.length} 个新书签!`);
   };
@@ -363,22 +555,30 @@ function App() {
   const handleEditLink = (data: Omit<LinkItem, 'id' | 'createdAt'>) => {
     if (!authToken) { setIsAuthOpen(true); return; }
     if (!editingLink) return;
-    const updated = links.map(l => l.id === editingLink.id ? { ...l, ...data } : l);
-    updateData(updated, categories);
+    const id = editingLink.id;
+    const editLink = (list: LinkItem[]) => list.map(l => l.id === id ? { ...l, ...data } : l);
+    saveLocalState(editLink(links), categories, siteSettings);
+    syncChange(token => patchLink(token, id, data), base => ({ ...base, links: editLink(base.links) }));
     setEditingLink(undefined);
   };
 
   const handleDeleteLink = (id: string) => {
     if (!authToken) { setIsAuthOpen(true); return; }
     if (confirm('确定删除此链接吗?')) {
-      updateData(links.filter(l => l.id !== id), categories);
+      const removeLink = (list: LinkItem[]) => list.filter(l => l.id !== id);
+      saveLocalState(removeLink(links), categories, siteSettings);
+      syncChange(token => deleteLink(token, id), base => ({ ...base, links: removeLink(base.links) }));
     }
   };
 
   const togglePin = (id: string) => {
       if (!authToken) { setIsAuthOpen(true); return; }
-      const updated = links.map(l => l.id === id ? { ...l, pinned: !l.pinned } : l);
-      updateData(updated, categories);
+      const link = links.find(l => l.id === id);
+      if (!link) return;
+      const pinned = !link.pinned;
+      const setPinned = (list: LinkItem[]) => list.map(l => l.id === id ? { ...l, pinned } : l);
+      saveLocalState(setPinned(links), categories, siteSettings);
+      syncChange(token => patchLink(token, id, { pinned }), base => ({ ...base, links: setPinned(base.links) }));
   };
   
   const handleCopyLink = (text: string) => {
@@ -415,8 +615,31 @@ function App() {
       }
   };
 
-  const handleUnlockCategory = (catId: string) => {
-      setUnlockedCategoryIds(prev => new Set(prev).add(catId));
+  const handleUnlockCategory = async (catId: string, password: string): Promise<boolean | string> => {
+      try {
+          const res = await fetch(spaceUrl('/api/unlock'), {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ categoryId: catId, password })
+          });
+          if (!res.ok) return throttleMessage(res) || false;
+          const { grant } = await res.json();
+
+          // The admin already has every link; visitors fetch this category's links with the grant
+          if (!authToken) {
+              const linksRes = await fetch(spaceUrl(`/api/unlock?categoryId=${encodeURIComponent(catId)}`), {
+                  headers: { 'x-category-grant': grant }
+              });
+              if (!linksRes.ok) return false;
+              const { links: catLinks } = await linksRes.json();
+              setLinks(prev => [...prev.filter(l => l.categoryId !== catId), ...catLinks]);
+          }
+
+          setUnlockedCategoryIds(prev => new Set(prev).add(catId));
+          return true;
+      } catch (e) {
+          return false;
+      }
   };
 
   const handleUpdateCategories = (newCats: Category[], newLinks?: LinkItem[]) => {
@@ -424,13 +647,27 @@ function App() {
       updateData(newLinks || links, newCats);
   };
 
-  const handleDeleteCategory = (catId: string) => {
+  const handleReorderCategories = (newCats: Category[]) => {
       if (!authToken) { setIsAuthOpen(true); return; }
-      const newCats = categories.filter(c => c.id !== catId);
-      const targetId = 'common'; 
-      const newLinks = links.map(l => l.categoryId === catId ? { ...l, categoryId: targetId } : l);
-      if (newCats.length === 0) newCats.push(DEFAULT_CATEGORIES[0]);
-      updateData(newLinks, newCats);
+      const ids = newCats.map(c => c.id);
+      const reorder = (list: Category[]) => [...list].sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+      saveLocalState(links, newCats, siteSettings);
+      syncChange(token => reorderCategories(token, ids), base => ({ ...base, categories: reorder(base.categories) }));
+  };
+
+  // Links of the deleted category move to `moveTo`, falling back to "common" like the server does
+  const handleDeleteCategory = (catId: string, moveTo: string = 'common') => {
+      if (!authToken) { setIsAuthOpen(true); return; }
+      const removeCategory = (snapshot: SyncSnapshot): SyncSnapshot => {
+          const newCats = snapshot.categories.filter(c => c.id !== catId);
+          if (newCats.length === 0) newCats.push(DEFAULT_CATEGORIES[0]);
+          const target = newCats.find(c => c.id === moveTo) || newCats.find(c => c.id === 'common') || newCats[0];
+          const newLinks = snapshot.links.map(l => l.categoryId === catId ? { ...l, categoryId: target.id } : l);
+          return { ...snapshot, links: newLinks, categories: newCats };
+      };
+      const next = removeCategory({ links, categories });
+      saveLocalState(next.links, next.categories, siteSettings);
+      syncChange(token => deleteCategory(token, catId, moveTo), removeCategory);
   };
 
   const handleSaveWebDavConfig = (config: WebDavConfig) => {
@@ -438,11 +675,47 @@ function App() {
       localStorage.setItem(WEBDAV_CONFIG_KEY, JSON.stringify(config));
   };
 
-  const handleRestoreBackup = (restoredLinks: LinkItem[], restoredCategories: Category[]) => {
-      updateData(restoredLinks, restoredCategories);
+  // Returns false when the restore was cancelled
+  const handleRestoreBackup = (state: BackupState): boolean => {
+      // Backups keep only the lock flag of private categories. One the server has no password for
+      // (another deployment or space, or since deleted) gets a new password, or the restore is
+      // cancelled, rather than its links becoming public
+      const lockedIds = new Set(categories.filter(c => c.locked).map(c => c.id));
+      const restoredCategories: Category[] = [];
+      for (const cat of state.categories) {
+          if (!authToken || !cat.locked || lockedIds.has(cat.id)) {
+              restoredCategories.push(cat);
+              continue;
+          }
+          const password = prompt(`备份中的分类「${cat.name}」设有访问密码，但当前站点没有它的密码。\n请为它设置新的访问密码（取消则放弃恢复）：`);
+          if (!password) {
+              alert(`已取消恢复：分类「${cat.name}」未设置密码，恢复后其中的链接会公开可见。`);
+              return false;
+          }
+          restoredCategories.push({ ...cat, password });
+      }
+
+      const restoredSettings = state.settings ? { ...siteSettings, ...state.settings } : siteSettings;
+      updateData(state.links, restoredCategories, restoredSettings, 'backup-restore');
+      if (state.searchEngines) handleUpdateSearchEngines(state.searchEngines);
+      // Backups made without secrets leave the current API key and WebDAV password in place
+      if (state.aiConfig) {
+          const restoredAiConfig = { ...state.aiConfig, apiKey: state.aiConfig.apiKey || aiConfig.apiKey };
+          setAiConfig(restoredAiConfig);
+          localStorage.setItem(AI_CONFIG_KEY, JSON.stringify(restoredAiConfig));
+      }
+      if (state.webDavConfig) {
+          handleSaveWebDavConfig({ ...state.webDavConfig, password: state.webDavConfig.password || webDavConfig.password });
+      }
       setIsBackupModalOpen(false);
+      return true;
   };
   
+  // The merged result of a two-way WebDAV sync; settings are not synced
+  const handleSyncMerged = (data: SyncData) => {
+      updateData(data.links, data.categories, siteSettings, 'webdav-sync');
+  };
+
   // Updated Search Logic
   const handleSearchSubmit = (e: React.FormEvent) => {
       e.preventDefault();
@@ -464,7 +737,7 @@ function App() {
 
   const isCategoryLocked = (catId: string) => {
       const cat = categories.find(c => c.id === catId);
-      if (!cat || !cat.password) return false;
+      if (!cat || !cat.locked) return false;
       return !unlockedCategoryIds.has(catId);
   };
 
@@ -495,9 +768,10 @@ function App() {
   // --- Render Components ---
 
   const renderLinkCard = (link: LinkItem) => {
-      const iconDisplay = link.icon ? (
+      const icon = linkIcon(link);
+      const iconDisplay = icon ? (
          <img 
-            src={link.icon} 
+            src={icon} 
             alt="" 
             className="w-5 h-5 object-contain" 
             onError={(e) => {
@@ -561,7 +835,7 @@ function App() {
              <button onClick={() => { handleCopyLink(contextMenu.link!.url); setContextMenu(null); }} className="flex items-center gap-3 px-4 py-2.5 text-sm hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition-colors text-left">
                  <Copy size={16} className="text-slate-400"/> <span>复制链接</span>
              </button>
-             <button onClick={() => { setQrCodeLink(contextMenu.link); setContextMenu(null); }} className="flex items-center gap-3 px-4 py-2.5 text-sm hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition-colors text-left">
+             <button onClick={() => { setQrCode({ title: contextMenu.link!.title, url: contextMenu.link!.url }); setContextMenu(null); }} className="flex items-center gap-3 px-4 py-2.5 text-sm hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 transition-colors text-left">
                  <QrCode size={16} className="text-slate-400"/> <span>显示二维码</span>
              </button>
              <div className="h-px bg-slate-100 dark:bg-slate-700 my-1 mx-2"/>
@@ -579,23 +853,16 @@ function App() {
       )}
 
       {/* QR Code Modal */}
-      {qrCodeLink && (
-          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={() => setQrCodeLink(null)}>
-              <div className="bg-white p-6 rounded-2xl shadow-2xl flex flex-col items-center gap-4 animate-in zoom-in duration-200" onClick={e => e.stopPropagation()}>
-                  <h3 className="font-bold text-lg text-slate-800">{qrCodeLink.title}</h3>
-                  <div className="p-2 border border-slate-200 rounded-lg">
-                    <img 
-                        src={`https://api.qrserver.com/v1/create-qr-code/?size=180x180&data=${encodeURIComponent(qrCodeLink.url)}`} 
-                        alt="QR Code" 
-                        className="w-48 h-48"
-                    />
-                  </div>
-                  <p className="text-xs text-slate-500 max-w-[200px] truncate">{qrCodeLink.url}</p>
-              </div>
-          </div>
-      )}
+      {qrCode && <QrCodeModal title={qrCode.title} url={qrCode.url} onClose={() => setQrCode(null)} />}
 
       <AuthModal isOpen={isAuthOpen} onLogin={handleLogin} />
+
+      <ConflictModal
+        isOpen={!!syncConflict}
+        conflicts={syncConflict?.conflicts || []}
+        onResolve={handleResolveConflict}
+        onClose={() => setSyncConflict(null)}
+      />
       
       <CategoryAuthModal 
         isOpen={!!catAuthModalData}
@@ -611,6 +878,9 @@ function App() {
         links={links}
         onUpdateCategories={handleUpdateCategories}
         onDeleteCategory={handleDeleteCategory}
+        onReorderCategories={handleReorderCategories}
+        authToken={authToken}
+        onShowQr={(title, url) => setQrCode({ title, url })}
       />
 
       <BackupModal
@@ -618,9 +888,15 @@ function App() {
         onClose={() => setIsBackupModalOpen(false)}
         links={links}
         categories={categories}
+        siteSettings={siteSettings}
+        searchEngines={externalEngines}
+        aiConfig={aiConfig}
         onRestore={handleRestoreBackup}
+        onSyncMerged={handleSyncMerged}
         webDavConfig={webDavConfig}
         onSaveWebDavConfig={handleSaveWebDavConfig}
+        authToken={authToken}
+        onRestoreRevision={applyCloudData}
       />
 
       <ImportModal
@@ -639,7 +915,11 @@ function App() {
         onSave={handleSaveAIConfig}
         links={links}
         categories={categories}
-        onUpdateLinks={(newLinks) => updateData(newLinks, categories)}
+        onUpdateLinks={(newLinks, newCategories = categories) => updateData(newLinks, newCategories)}
+        onLinksChecked={handleLinksChecked}
+        authToken={authToken}
+        onLogout={handleLogout}
+        onSpacesChange={setSpaces}
       />
 
       <SearchSettingsModal
@@ -680,6 +960,8 @@ function App() {
             </span>
         </div>
 
+        <SpaceSwitcher spaces={spaces} />
+
         <div className="flex-1 overflow-y-auto p-4 space-y-1 scrollbar-hide">
             <button
               onClick={() => scrollToCategory('all')}
@@ -705,7 +987,7 @@ function App() {
             </div>
 
             {categories.map(cat => {
-                const isLocked = cat.password && !unlockedCategoryIds.has(cat.id);
+                const isLocked = cat.locked && !unlockedCategoryIds.has(cat.id);
                 const isEmoji = cat.icon && cat.icon.length <= 4 && !/^[a-zA-Z]+$/.test(cat.icon);
                 
                 return (
@@ -762,6 +1044,11 @@ function App() {
                  {syncStatus === 'saved' && <CheckCircle2 className="w-3 h-3 text-green-500" />}
                  {syncStatus === 'error' && <AlertCircle className="w-3 h-3 text-red-500" />}
                  {authToken ? <span className="text-green-600">已同步</span> : <span className="text-amber-500">离线</span>}
+                 {authToken && (
+                     <button onClick={handleLogout} className="ml-1 p-0.5 hover:text-red-500 transition-colors" title="退出登录">
+                         <LogOut size={12} />
+                     </button>
+                 )}
                </div>
                <a 
                  href={GITHUB_REPO_URL} 
@@ -837,7 +1124,7 @@ function App() {
                     <div className="absolute left-3 text-slate-400 pointer-events-none flex items-center gap-2">
                         {searchMode === 'local' ? (
                             <Search size={16} />
-                        ) : activeExternalEngine?.icon?.startsWith('http') ? (
+                        ) : isImageIcon(activeExternalEngine?.icon) ? (
                             <img src={activeExternalEngine.icon} className="w-4 h-4 rounded-full object-cover" />
                         ) : (
                             <Search size={16} />
@@ -909,7 +1196,7 @@ function App() {
 
             {categories.map(cat => {
                 let catLinks = searchResults.filter(l => l.categoryId === cat.id);
-                const isLocked = cat.password && !unlockedCategoryIds.has(cat.id);
+                const isLocked = cat.locked && !unlockedCategoryIds.has(cat.id);
                 
                 // Logic Fix: If External Search, do NOT hide categories based on links
                 // Because external search doesn't filter links.
@@ -983,6 +1270,7 @@ function App() {
         existingLinks={links}
         initialData={editingLink || (prefillLink as LinkItem)}
         aiConfig={aiConfig}
+        authToken={authToken}
       />
     </div>
   );
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RefreshCw, Loader2, Search } from 'lucide-react';
+import { AuditAction, AuditActor, AuditEntry, AuditReason, AuditTarget } from '../types';
+import { authHeaders } from '../services/authService';
+import { spaceUrl } from '../services/spaceService';
+
+interface AuditPanelProps {
+  authToken: string;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'storage.replace': '整体保存',
+  'link.create': '添加链接',
+  'link.update': '修改链接',
+  'link.delete': '删除链接',
+  'category.create': '新建分类',
+  'category.update': '修改分类',
+  'category.delete': '删除分类',
+  'category.reorder': '调整分类顺序',
+  'history.restore': '回滚版本',
+  'token.create': '创建 API 令牌',
+  'token.revoke': '吊销 API 令牌',
+  'share.create': '创建分享链接',
+  'share.revoke': '吊销分享链接',
+  'space.create': '新建空间',
+  'space.update': '修改空间',
+  'space.delete': '删除空间',
+  'backup.save': '保存备份配置',
+  'backup.delete': '删除备份配置',
+};
+
+const TARGET_PREFIXES: Record<AuditTarget['type'], string> = {
+  link: '',
+  category: '分类',
+  settings: '',
+  token: '令牌 ',
+  share: '分享 ',
+  space: '空间 ',
+  webdav: 'WebDAV ',
+  s3: 'S3 ',
+};
+
+const REASON_LABELS: Record<AuditReason, string> = {
+  'import': '导入书签',
+  'backup-restore': '从备份恢复',
+  'conflict-merge': '解决同步冲突',
+  'webdav-sync': '与 WebDAV 双向同步',
+};
+
+const ACTION_GROUPS = [
+  { value: '', label: '全部操作' },
+  { value: 'link', label: '链接' },
+  { value: 'category', label: '分类' },
+  { value: 'storage', label: '整体保存' },
+  { value: 'history', label: '回滚' },
+  { value: 'token', label: 'API 令牌' },
+  { value: 'share', label: '分享链接' },
+  { value: 'space', label: '空间' },
+  { value: 'backup', label: '备份配置' },
+];
+
+const CHANGE_STYLES: Record<AuditTarget['change'], { sign: string; className: string }> = {
+  added: { sign: '+', className: 'text-green-600' },
+  removed: { sign: '-', className: 'text-red-500' },
+  updated: { sign: '~', className: 'text-amber-600' },
+};
+
+const actorKey = (actor: AuditActor) => actor.id || actor.method;
+
+const describeActor = (actor: AuditActor) => {
+  if (actor.method === 'password') return '管理密码';
+  if (actor.method === 'token') return `API 令牌 ${actor.name || actor.id || ''}`.trim();
+  return actor.name || '已登录设备';
+};
+
+const describeTarget = (target: AuditTarget) => {
+  if (target.type === 'settings') return '网站设置';
+  return `${TARGET_PREFIXES[target.type]}${target.label || target.id || ''}`;
+};
+
+const AuditPanel: React.FC<AuditPanelProps> = ({ authToken }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [action, setAction] = useState('');
+  const [actor, setActor] = useState('');
+  const [query, setQuery] = useState('');
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+        const res = await fetch(spaceUrl('/api/audit'), { headers: authHeaders(authToken) });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        setEntries((await res.json()).entries || []);
+    } catch (e) {
+        setError('加载操作记录失败');
+    } finally {
+        setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authToken) loadEntries();
+  }, [authToken]);
+
+  // One option per session / token / password seen in the log
+  const actors = useMemo(() => {
+    const seen = new Map<string, string>();
+    entries.forEach(e => {
+        if (!seen.has(actorKey(e.actor))) seen.set(actorKey(e.actor), describeActor(e.actor));
+    });
+    return [...seen.entries()];
+  }, [entries]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries.filter(e =>
+        (!action || e.action.startsWith(`${action}.`)) &&
+        (!actor || actorKey(e.actor) === actor) &&
+        (!q || e.targets.some(t => (t.label || '').toLowerCase().includes(q) || t.id === q))
+    );
+  }, [entries, action, actor, query]);
+
+  const selectClass = 'text-xs p-1.5 rounded border border-slate-300 dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+
+  return (
+    <div className="space-y-3 animate-in fade-in duration-300">
+        <div className="flex items-center justify-between">
+            <div>
+                <h4 className="font-medium text-slate-800 dark:text-slate-200">操作记录</h4>
+                <p className="text-xs text-slate-500 mt-1">每次修改数据、令牌、分享、空间或备份配置时记录操作者、来源 IP 和受影响的条目。</p>
+            </div>
+            <button
+                onClick={loadEntries}
+                disabled={isLoading}
+                className="p-2 text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                title="刷新"
+            >
+                {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+            </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+            <select value={action} onChange={e => setAction(e.target.value)} className={selectClass}>
+                {ACTION_GROUPS.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+            </select>
+            <select value={actor} onChange={e => setActor(e.target.value)} className={selectClass}>
+                <option value="">全部操作者</option>
+                {actors.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            </select>
+            <div className="flex-1 min-w-[8rem] flex items-center gap-1 px-2 rounded border border-slate-300 dark:border-slate-600 dark:bg-slate-800">
+                <Search size={12} className="text-slate-400" />
+                <input
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="按名称搜索"
+                    className="flex-1 min-w-0 text-xs py-1.5 bg-transparent dark:text-white outline-none"
+                />
+            </div>
+        </div>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="space-y-2">
+            {filtered.map(entry => (
+                <div key={entry.id} className="p-3 bg-white dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-600 space-y-1">
+                    <div className="flex items-center gap-2 text-sm dark:text-slate-200">
+                        <span className="font-medium">{ACTION_LABELS[entry.action] || entry.action}</span>
+                        {entry.reason && <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400">{REASON_LABELS[entry.reason]}</span>}
+                        {entry.restoredFrom !== undefined && <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">回滚自 #{entry.restoredFrom}</span>}
+                        {entry.revision !== undefined && <span className="ml-auto text-xs font-mono text-slate-400">#{entry.revision}</span>}
+                    </div>
+                    <div className="text-xs text-slate-400 truncate" title={entry.actor.userAgent}>
+                        {formatTime(entry.at)} · {describeActor(entry.actor)}{entry.actor.ip && ` · ${entry.actor.ip}`}
+                    </div>
+                    {entry.targets.length > 0 && (
+                        <div className="text-xs text-slate-600 dark:text-slate-300 flex flex-wrap gap-x-3">
+                            {entry.targets.map((t, i) => (
+                                <span key={i} className="truncate max-w-[14rem]">
+                                    <span className={CHANGE_STYLES[t.change].className}>{CHANGE_STYLES[t.change].sign}</span> {describeTarget(t)}
+                                </span>
+                            ))}
+                            {entry.targetCount > entry.targets.length && <span className="text-slate-400">…共 {entry.targetCount} 项</span>}
+                        </div>
+                    )}
+                    {entry.targets.length === 0 && <div className="text-xs text-slate-400">未改变任何条目</div>}
+                </div>
+            ))}
+            {!isLoading && filtered.length === 0 && !error && (
+                <div className="text-center py-6 text-slate-400 text-sm">{entries.length ? '没有符合条件的记录' : '暂无操作记录'}</div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default AuditPanel;
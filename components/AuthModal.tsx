@@ -3,7 +3,8 @@ import { Lock, ArrowRight, Loader2 } from 'lucide-react';
 
 interface AuthModalProps {
   isOpen: boolean;
-  onLogin: (password: string) => Promise<boolean>;
+  // A string is an error message to show instead of the generic one
+  onLogin: (password: string) => Promise<boolean | string>;
 }
 
 const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onLogin }) => {
@@ -18,9 +19,9 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onLogin }) => {
     setIsLoading(true);
     setError('');
     
-    const success = await onLogin(password);
-    if (!success) {
-      setError('密码错误或无法连接服务器');
+    const result = await onLogin(password);
+    if (result !== true) {
+      setError(typeof result === 'string' ? result : '密码错误或无法连接服务器');
     }
     setIsLoading(false);
   };
@@ -1,57 +1,320 @@
-import React, { useState, useEffect } from 'react';
-import { X, Cloud, Download, Upload, CheckCircle2, AlertCircle, RefreshCw, Save } from 'lucide-react';
-import { Category, LinkItem, WebDavConfig } from '../types';
-import { checkWebDavConnection, uploadBackup, downloadBackup } from '../services/webDavService';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Cloud, Download, Upload, CheckCircle2, AlertCircle, RefreshCw, Save, History, Clock, Loader2, FileJson, Lock, ArrowLeftRight } from 'lucide-react';
+import { AIConfig, BackupEnvelope, BackupIntervalHours, BackupTargetKind, BackupRetention, BackupState, Category, LinkItem, SearchEngine, EncryptedBackup, S3Config, ServerS3Config, ServerWebDavConfig, SyncJournal, SiteSettings, WebDavBackupFile, WebDavConfig } from '../types';
+import { checkWebDavConnection, uploadBackup, downloadBackup, listBackups, fetchServerWebDavConfig, saveServerWebDavConfig, runServerBackup } from '../services/webDavService';
+import { checkS3Connection, downloadS3Backup, fetchS3Config, listS3Backups, saveS3Config, uploadS3Backup } from '../services/s3Service';
+import { spaceStorageKey } from '../services/spaceService';
 import { generateBookmarkHtml, downloadHtmlFile } from '../services/exportService';
+import { BackupFormatError, ParsedBackup, createBackup, downloadBackupFile, openBackup } from '../services/backupService';
+import { BackupPassphraseError, deriveServerBackupKey, encryptBackup } from '../services/backupCrypto';
+import { SyncData, SyncSideSummary, SyncSummary, loadSyncJournal, mergeForSync, saveSyncJournal } from '../services/syncService';
+import { SyncSnapshot } from '../services/mergeService';
+import HistoryPanel from './HistoryPanel';
 
 interface BackupModalProps {
   isOpen: boolean;
   onClose: () => void;
   links: LinkItem[];
   categories: Category[];
-  onRestore: (links: LinkItem[], categories: Category[]) => void;
+  siteSettings: SiteSettings;
+  searchEngines: SearchEngine[];
+  aiConfig: AIConfig;
+  onRestore: (state: BackupState) => boolean; // false when the user cancelled
+  onSyncMerged: (data: SyncData) => void;
   webDavConfig: WebDavConfig;
   onSaveWebDavConfig: (config: WebDavConfig) => void;
+  authToken: string;
+  onRestoreRevision: (data: SyncSnapshot) => void;
 }
 
+const INTERVAL_OPTIONS: { value: BackupIntervalHours; label: string }[] = [
+  { value: 0, label: '不自动备份' },
+  { value: 1, label: '每小时' },
+  { value: 6, label: '每 6 小时' },
+  { value: 12, label: '每 12 小时' },
+  { value: 24, label: '每天' },
+  { value: 168, label: '每周' },
+];
+
+const DEFAULT_RETENTION: BackupRetention = { keepLast: 10, keepDaily: 7, keepWeekly: 4 };
+
+const RETENTION_FIELDS: { key: keyof BackupRetention; label: string; min: number }[] = [
+  { key: 'keepLast', label: '保留最近 (份)', min: 1 },
+  { key: 'keepDaily', label: '按天保留 (天)', min: 0 },
+  { key: 'keepWeekly', label: '按周保留 (周)', min: 0 },
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const SYNC_SIDES: (keyof SyncSummary)[] = ['local', 'remote'];
+
+// Two-way sync looks this many backups back for one written by a sync before settling for the newest
+const SYNC_BASE_SCAN_LIMIT = 5;
+
+const TARGET_OPTIONS: { value: BackupTargetKind; label: string }[] = [
+  { value: 'webdav', label: 'WebDAV' },
+  { value: 's3', label: 'S3 兼容存储' },
+];
+
+const TARGET_KEY = 'cloudnav_backup_target';
+
+type S3Form = S3Config & { secretAccessKey: string };
+
+// MinIO and most self-hosted stores need path-style addressing
+const EMPTY_S3: S3Form = { endpoint: '', region: 'us-east-1', bucket: '', prefix: '', pathStyle: true, accessKeyId: '', secretAccessKey: '' };
+
+const loadBackupTarget = (): BackupTargetKind => localStorage.getItem(spaceStorageKey(TARGET_KEY)) === 's3' ? 's3' : 'webdav';
+
+const SYNC_CHANGES: { key: keyof SyncSideSummary; label: string }[] = [
+  { key: 'added', label: '新增' },
+  { key: 'updated', label: '更新' },
+  { key: 'removed', label: '删除' },
+];
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+type BackupPreview = ParsedBackup & { name: string };
+
+// What a backup holds besides links and categories, for the preview
+const describeExtras = (state: BackupState) => [
+  state.settings && '网站设置',
+  state.searchEngines && '搜索引擎',
+  state.aiConfig && 'AI 配置',
+  state.webDavConfig && 'WebDAV 配置',
+].filter(Boolean).join('、');
+
 const BackupModal: React.FC<BackupModalProps> = ({ 
-  isOpen, onClose, links, categories, onRestore, webDavConfig, onSaveWebDavConfig 
+  isOpen, onClose, links, categories, siteSettings, searchEngines, aiConfig, onRestore, onSyncMerged, webDavConfig, onSaveWebDavConfig, authToken, onRestoreRevision
 }) => {
+  const [view, setView] = useState<'backup' | 'history'>('backup');
   const [config, setConfig] = useState<WebDavConfig>(webDavConfig);
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<'success' | 'fail' | null>(null);
-  const [syncStatus, setSyncStatus] = useState<'idle' | 'uploading' | 'downloading' | 'success' | 'error'>('idle');
+  const [syncStatus, setSyncStatus] = useState<'idle' | 'uploading' | 'downloading' | 'syncing' | 'success' | 'error'>('idle');
+  const [syncSummary, setSyncSummary] = useState<SyncSummary | null>(null);
   const [statusMsg, setStatusMsg] = useState('');
+  // The config lives on the server; the local one only seeds the form until it has been saved there
+  const [serverConfig, setServerConfig] = useState<ServerWebDavConfig | null>(null);
+  const [intervalHours, setIntervalHours] = useState<BackupIntervalHours>(0);
+  const [configError, setConfigError] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [retention, setRetention] = useState<BackupRetention>(DEFAULT_RETENTION);
+  // Where uploads, restores and syncs go; S3 settings only ever live on the server
+  const [backupTarget, setBackupTarget] = useState<BackupTargetKind>('webdav');
+  const [s3Form, setS3Form] = useState<S3Form>(EMPTY_S3);
+  const [s3Server, setS3Server] = useState<ServerS3Config | null>(null);
+  const [s3Retention, setS3Retention] = useState<BackupRetention>(DEFAULT_RETENTION);
+  // Restore picker: the listed backups, and the one downloaded for a closer look
+  const [backupFiles, setBackupFiles] = useState<WebDavBackupFile[] | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [loadingFile, setLoadingFile] = useState<string | null>(null);
+  // API keys and passwords only go into backups when asked for
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  // End-to-end encryption: the passphrase stays in this form and is never sent anywhere
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  // Asking for the passphrase of an encrypted backup being opened
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ resolve: (value: string | null) => void } | null>(null);
+  const [promptValue, setPromptValue] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyServerConfig = (saved: ServerWebDavConfig) => {
+    setServerConfig(saved);
+    setConfig({ url: saved.url, username: saved.username, password: '', enabled: saved.enabled });
+    setIntervalHours(saved.intervalHours);
+    setRetention(saved.retention);
+    setEncrypt(saved.encrypted);
+  };
+
+  const applyS3Config = (saved: ServerS3Config) => {
+    const { hasSecret, retention: savedRetention, ...rest } = saved;
+    setS3Server(saved);
+    setS3Form({ ...rest, secretAccessKey: '' });
+    setS3Retention(savedRetention);
+  };
 
   useEffect(() => {
     if(isOpen) {
         setConfig(webDavConfig);
+        setServerConfig(null);
+        setIntervalHours(0);
+        setRetention(DEFAULT_RETENTION);
+        setBackupTarget(loadBackupTarget());
+        setS3Form(EMPTY_S3);
+        setS3Server(null);
+        setS3Retention(DEFAULT_RETENTION);
+        setBackupFiles(null);
+        setPreview(null);
+        setSyncSummary(null);
+        setIncludeSecrets(false);
+        setEncrypt(false);
+        setPassphrase('');
+        setPassphraseConfirm('');
+        setPassphrasePrompt(null);
+        setConfigError('');
         setTestResult(null);
         setSyncStatus('idle');
+        setView('backup');
+        if (authToken) {
+            fetchServerWebDavConfig(authToken)
+                .then(saved => { if (saved) applyServerConfig(saved); })
+                .catch(() => setConfigError('读取服务端 WebDAV 配置失败'));
+            fetchS3Config(authToken)
+                .then(saved => { if (saved) applyS3Config(saved); })
+                .catch(() => setConfigError('读取服务端 S3 配置失败'));
+        }
     }
-  }, [isOpen, webDavConfig]);
+  }, [isOpen, webDavConfig, authToken]);
 
   const handleTestConnection = async () => {
     setIsTesting(true);
     setTestResult(null);
-    const success = await checkWebDavConnection(config);
+    const success = backupTarget === 's3' ? await checkS3Connection(authToken) : await checkWebDavConnection(config, authToken);
     setTestResult(success ? 'success' : 'fail');
     setIsTesting(false);
   };
 
-  const handleSaveConfig = () => {
-    onSaveWebDavConfig(config);
+  // Why the passphrase cannot be used yet, if encryption is on
+  const passphraseError = () => {
+    if (!encrypt) return '';
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `备份密码至少 ${MIN_PASSPHRASE_LENGTH} 位`;
+    if (passphrase !== passphraseConfirm) return '两次输入的备份密码不一致';
+    return '';
+  };
+
+  const requestPassphrase = () => new Promise<string | null>(resolve => {
+    setPromptValue(passphrase);
+    setPassphrasePrompt({ resolve });
+  });
+
+  const closePassphrasePrompt = (value: string | null) => {
+    passphrasePrompt?.resolve(value);
+    setPassphrasePrompt(null);
+  };
+
+  const handleSaveConfig = async () => {
+    setConfigError('');
+    // Scheduled backups get a key derived here; a new passphrase replaces the stored key,
+    // none keeps it, and turning encryption off removes it. Without AUTH_SECRET the server
+    // cannot keep a key from whoever reads its storage, so none is sent
+    const encryptionError = passphrase || !serverConfig?.encrypted ? passphraseError() : '';
+    if (encryptionError) {
+        setConfigError(encryptionError);
+        return;
+    }
+    const encryption = !encrypt ? null : passphrase && serverConfig?.canEncrypt !== false ? await deriveServerBackupKey(passphrase) : undefined;
+    try {
+        applyServerConfig(await saveServerWebDavConfig(authToken, {
+            url: config.url,
+            username: config.username,
+            password: config.password || undefined,
+            enabled: config.enabled,
+            intervalHours,
+            retention,
+            encryption,
+        }));
+    } catch (e) {
+        setConfigError(
+            encryption ? '保存失败，请检查地址格式；加密自动备份还需要在服务端设置 AUTH_SECRET'
+                : serverConfig || config.password ? '保存失败，请检查地址格式' : '请填写应用密码'
+        );
+        return;
+    }
+    // The password now only exists on the server, encrypted
+    onSaveWebDavConfig({ ...config, password: '' });
     // Automatically test upon save if enabled
     if (config.enabled) {
         handleTestConnection();
     }
   };
 
+  const handleSelectTarget = (target: BackupTargetKind) => {
+    setBackupTarget(target);
+    localStorage.setItem(spaceStorageKey(TARGET_KEY), target);
+    setBackupFiles(null);
+    setPreview(null);
+    setSyncSummary(null);
+    setTestResult(null);
+    setConfigError('');
+    setSyncStatus('idle');
+  };
+
+  const handleSaveS3Config = async () => {
+    setConfigError('');
+    try {
+        applyS3Config(await saveS3Config(authToken, {
+            ...s3Form,
+            secretAccessKey: s3Form.secretAccessKey || undefined,
+            retention: s3Retention,
+        }));
+    } catch (e) {
+        setConfigError(s3Server || s3Form.secretAccessKey ? '保存失败，请检查 Endpoint 与 Bucket 名称' : '请填写 Secret Key');
+        return;
+    }
+    handleTestConnection();
+  };
+
+  // Section 2 works the same against either target
+  const remote = backupTarget === 's3' ? {
+    label: 'S3',
+    ready: !!s3Server,
+    upload: (backup: BackupEnvelope | EncryptedBackup) => uploadS3Backup(backup, authToken),
+    list: () => listS3Backups(authToken),
+    download: (name?: string, getPassphrase = requestPassphrase) => downloadS3Backup(authToken, name, getPassphrase),
+  } : {
+    label: 'WebDAV',
+    ready: config.enabled,
+    upload: (backup: BackupEnvelope | EncryptedBackup) => uploadBackup(config, backup, authToken),
+    list: () => listBackups(config, authToken),
+    download: (name?: string, getPassphrase = requestPassphrase) => downloadBackup(config, authToken, name, getPassphrase),
+  };
+
+  const handleRunServerBackup = async () => {
+    setIsRunning(true);
+    try {
+        const lastRun = await runServerBackup(authToken);
+        setServerConfig(prev => prev && { ...prev, lastRun });
+    } catch (e) {
+        setConfigError('备份请求失败');
+    } finally {
+        setIsRunning(false);
+    }
+  };
+
+  // The sync journal rides along so a later two-way sync still knows what was deleted
+  const buildBackup = (data: SyncData = { links, categories }, sync: SyncJournal = loadSyncJournal()) => createBackup({
+    ...data,
+    settings: siteSettings,
+    searchEngines,
+    aiConfig,
+    webDavConfig: config,
+    sync,
+  }, includeSecrets);
+
+  // The backup as written to WebDAV or a file: encrypted when asked for, null when the passphrase is not usable
+  const sealBackup = async (backup: BackupEnvelope = buildBackup()): Promise<BackupEnvelope | EncryptedBackup | null> => {
+    const error = passphraseError();
+    if (error) {
+        setSyncStatus('error');
+        setStatusMsg(error);
+        return null;
+    }
+    return encrypt ? encryptBackup(backup, passphrase) : backup;
+  };
+
   const handleBackupToCloud = async () => {
     setSyncStatus('uploading');
-    setStatusMsg('正在上传...');
-    const success = await uploadBackup(config, { links, categories });
+    setStatusMsg(encrypt ? '正在加密并上传...' : '正在上传...');
+    const backup = await sealBackup();
+    if (!backup) return;
+    const success = await remote.upload(backup);
     if (success) {
+        // The listing is out of date now: a new file was added and old ones may have been pruned
+        setBackupFiles(null);
+        setPreview(null);
         setSyncStatus('success');
         setStatusMsg('备份成功！');
     } else {
@@ -60,29 +323,178 @@ const BackupModal: React.FC<BackupModalProps> = ({
     }
   };
 
-  const handleRestoreFromCloud = async () => {
-    if (!confirm("确定要从 WebDAV 恢复吗？这将覆盖当前的本地数据。")) return;
-    
-    setSyncStatus('downloading');
-    setStatusMsg('正在下载...');
-    const data = await downloadBackup(config);
-    
-    if (data) {
-        onRestore(data.links, data.categories);
+  /**
+   * The newest backup that carries a sync journal, i.e. one written by a browser rather than a
+   * scheduled server backup, among the newest few; otherwise the newest one that opens. Files that
+   * fail to download or open are skipped. Null when none could be read.
+   */
+  const findSyncBase = async (files: WebDavBackupFile[]): Promise<ParsedBackup | null> => {
+    // Encrypted backups share one passphrase, so it is asked for at most once
+    let passphrase: Promise<string | null> | undefined;
+    const askOnce = () => passphrase ??= requestPassphrase();
+    let newest: ParsedBackup | null = null;
+    for (const file of files.slice(0, SYNC_BASE_SCAN_LIMIT)) {
+        const backup = await remote.download(file.name, askOnce).catch(() => null);
+        if (!backup) continue;
+        if (backup.state.sync) return backup;
+        newest ??= backup;
+    }
+    return newest;
+  };
+
+  /**
+   * Merges the newest synced backup on the selected target into the local data and uploads the
+   * result as a new backup. Nothing changes locally unless the upload succeeded.
+   */
+  const handleTwoWaySync = async () => {
+    setSyncSummary(null);
+    setSyncStatus('syncing');
+    setStatusMsg('正在下载并合并...');
+    try {
+        const files = await remote.list();
+        if (!files) throw new Error('读取备份列表失败，请检查配置或网络。');
+        const latest = await findSyncBase(files);
+        // Merging with nothing would upload the local data as if the target were empty
+        if (files.length > 0 && !latest) throw new Error('下载失败，请检查配置、网络或备份密码。');
+
+        const result = mergeForSync({ links, categories }, loadSyncJournal(), latest && latest.state, latest?.state.sync);
+        const merged: SyncData = { links: result.links, categories: result.categories };
+        const sealed = await sealBackup(buildBackup(merged, result.journal));
+        if (!sealed) return;
+        setStatusMsg('正在上传合并结果...');
+        if (!await remote.upload(sealed)) throw new Error('上传失败，请检查配置或网络。');
+
+        onSyncMerged(merged);
+        // After onSyncMerged, which journals the merge as local edits
+        saveSyncJournal(result.journal);
+        setBackupFiles(null);
+        setPreview(null);
+        setSyncSummary(result.summary);
         setSyncStatus('success');
-        setStatusMsg('恢复成功！');
+        setStatusMsg('同步完成！');
+    } catch (e) {
+        setSyncStatus('error');
+        setStatusMsg(e instanceof Error ? e.message : '同步失败');
+    }
+  };
+
+  const handleListBackups = async () => {
+    setPreview(null);
+    setSyncStatus('downloading');
+    setStatusMsg('正在读取备份列表...');
+    const files = await remote.list();
+    if (files) {
+        setBackupFiles(files);
+        setSyncStatus('idle');
     } else {
         setSyncStatus('error');
-        setStatusMsg('下载失败或文件格式错误。');
+        setStatusMsg('读取备份列表失败，请检查配置或网络。');
+    }
+  };
+
+  const handlePreviewBackup = async (name: string) => {
+    setLoadingFile(name);
+    try {
+        const backup = await remote.download(name);
+        if (backup) {
+            setPreview({ name, ...backup });
+        } else {
+            setSyncStatus('error');
+            setStatusMsg('下载失败，请检查配置或网络。');
+        }
+    } catch (e) {
+        setSyncStatus('error');
+        setStatusMsg(e instanceof BackupFormatError || e instanceof BackupPassphraseError ? e.message : '下载失败或文件格式错误。');
+    } finally {
+        setLoadingFile(null);
     }
   };
 
+  const handleRestoreFromCloud = () => {
+    if (!preview) return;
+    if (!confirm("确定要从该备份恢复吗？这将覆盖当前的本地数据。")) return;
+    if (!onRestore(preview.state)) return;
+    setSyncStatus('success');
+    setStatusMsg('恢复成功！');
+  };
+
+  const handleExportJson = async () => {
+    const backup = await sealBackup();
+    if (backup) downloadBackupFile(backup);
+  };
+
+  const handleImportJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let backup: ParsedBackup;
+    try {
+        backup = await openBackup(JSON.parse(await file.text()), requestPassphrase);
+    } catch (err) {
+        setSyncStatus('error');
+        setStatusMsg(err instanceof BackupFormatError || err instanceof BackupPassphraseError ? err.message : '文件格式错误');
+        return;
+    }
+
+    const { state } = backup;
+    const extras = describeExtras(state);
+    const summary = `${state.links.length} 个链接，${state.categories.length} 个分类${extras ? `，以及${extras}` : ''}`;
+    if (!confirm(`备份包含 ${summary}。确定要恢复吗？这将覆盖当前的本地数据。`)) return;
+    if (!onRestore(state)) return;
+    setSyncStatus('success');
+    setStatusMsg('恢复成功！');
+  };
+
   const handleExportHtml = () => {
     const html = generateBookmarkHtml(links, categories);
     const dateStr = new Date().toISOString().split('T')[0];
     downloadHtmlFile(html, `bookmarks_${dateStr}.html`);
   };
 
+  const renderRetentionFields = (value: BackupRetention, onChange: (value: BackupRetention) => void) => (
+    <div className="grid grid-cols-3 gap-4">
+        {RETENTION_FIELDS.map(field => (
+            <div key={field.key}>
+                <label className="block text-xs font-medium text-slate-500 mb-1">{field.label}</label>
+                <input
+                    type="number"
+                    min={field.min}
+                    max={365}
+                    value={value[field.key]}
+                    onChange={(e) => onChange({ ...value, [field.key]: Math.max(field.min, Math.floor(Number(e.target.value) || 0)) })}
+                    className="w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                />
+            </div>
+        ))}
+    </div>
+  );
+
+  const renderConfigActions = (onSave: () => void) => (
+    <>
+        <div className="flex items-center gap-3 pt-2">
+            <button 
+                onClick={handleTestConnection}
+                disabled={isTesting}
+                className="px-3 py-1.5 text-xs font-medium bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-md transition-colors"
+            >
+                {isTesting ? '连接中...' : '测试连接'}
+            </button>
+            <button 
+                onClick={onSave}
+                className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors flex items-center gap-1"
+            >
+                <Save size={12} /> 保存配置
+            </button>
+            {testResult === 'success' && <span className="text-xs text-green-500 flex items-center gap-1"><CheckCircle2 size={12}/> 连接成功</span>}
+            {testResult === 'fail' && <span className="text-xs text-red-500 flex items-center gap-1"><AlertCircle size={12}/> 连接失败</span>}
+        </div>
+        {configError && <div className="text-xs text-red-500">{configError}</div>}
+    </>
+  );
+
+  const inputClass = "w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500";
+
   if (!isOpen) return null;
 
   return (
@@ -97,10 +509,120 @@ const BackupModal: React.FC<BackupModalProps> = ({
           </button>
         </div>
 
+        <div className="flex gap-1 px-4 pt-3 border-b border-slate-200 dark:border-slate-700">
+            {([['backup', '备份', Cloud], ['history', '版本历史', History]] as const).map(([id, label, Icon]) => (
+                <button
+                    key={id}
+                    onClick={() => setView(id)}
+                    className={`flex items-center gap-1.5 px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${view === id ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                >
+                    <Icon size={14} /> {label}
+                </button>
+            ))}
+        </div>
+
         <div className="flex-1 overflow-y-auto p-6 space-y-8">
+            {view === 'history' ? (
+                <HistoryPanel authToken={authToken} onRestored={onRestoreRevision} />
+            ) : (<>
             
-            {/* Section 1: WebDAV Configuration */}
+            {/* Section 1: Backup target configuration */}
             <section className="space-y-4">
+                <div className="flex gap-2">
+                    {TARGET_OPTIONS.map(option => (
+                        <button
+                            key={option.value}
+                            onClick={() => handleSelectTarget(option.value)}
+                            className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${backupTarget === option.value ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-blue-500'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+
+                {backupTarget === 's3' ? (
+                <div className="space-y-3">
+                    <h4 className="font-medium text-slate-800 dark:text-slate-200">S3 兼容存储 (AWS S3/MinIO/Cloudflare R2等)</h4>
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="col-span-2">
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Endpoint</label>
+                            <input
+                                type="text"
+                                value={s3Form.endpoint}
+                                onChange={(e) => setS3Form({ ...s3Form, endpoint: e.target.value })}
+                                placeholder="http://minio.internal:9000"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Region</label>
+                            <input
+                                type="text"
+                                value={s3Form.region}
+                                onChange={(e) => setS3Form({ ...s3Form, region: e.target.value })}
+                                placeholder="us-east-1"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Bucket</label>
+                            <input
+                                type="text"
+                                value={s3Form.bucket}
+                                onChange={(e) => setS3Form({ ...s3Form, bucket: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">目录前缀 (可选)</label>
+                            <input
+                                type="text"
+                                value={s3Form.prefix}
+                                onChange={(e) => setS3Form({ ...s3Form, prefix: e.target.value })}
+                                placeholder="cloudnav/"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Access Key ID</label>
+                            <input
+                                type="text"
+                                value={s3Form.accessKeyId}
+                                onChange={(e) => setS3Form({ ...s3Form, accessKeyId: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Secret Access Key</label>
+                            <input
+                                type="password"
+                                value={s3Form.secretAccessKey}
+                                onChange={(e) => setS3Form({ ...s3Form, secretAccessKey: e.target.value })}
+                                placeholder={s3Server?.hasSecret ? '已保存，留空则不修改' : ''}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={s3Form.pathStyle}
+                            onChange={(e) => setS3Form({ ...s3Form, pathStyle: e.target.checked })}
+                            className="rounded text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="text-sm text-slate-600 dark:text-slate-400">Path-style 访问 (endpoint/bucket/key，MinIO 需要勾选)</span>
+                    </label>
+
+                    {renderRetentionFields(s3Retention, setS3Retention)}
+
+                    <p className="text-xs text-slate-500">配置保存在服务端（Secret Key 加密存储），上传、恢复和双向同步都经由服务端签名转发。</p>
+                    {renderConfigActions(handleSaveS3Config)}
+                </div>
+                ) : (<>
                 <div className="flex items-center justify-between">
                     <h4 className="font-medium text-slate-800 dark:text-slate-200">WebDAV 设置 (坚果云/Nextcloud等)</h4>
                     <label className="flex items-center gap-2 cursor-pointer">
@@ -141,57 +663,201 @@ const BackupModal: React.FC<BackupModalProps> = ({
                                 type="password" 
                                 value={config.password}
                                 onChange={(e) => setConfig({...config, password: e.target.value})}
+                                placeholder={serverConfig?.hasPassword ? '已保存，留空则不修改' : ''}
                                 className="w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
                             />
                         </div>
                     </div>
-                    
-                    <div className="flex items-center gap-3 pt-2">
-                        <button 
-                            onClick={handleTestConnection}
-                            disabled={isTesting}
-                            className="px-3 py-1.5 text-xs font-medium bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-md transition-colors"
-                        >
-                            {isTesting ? '连接中...' : '测试连接'}
-                        </button>
-                        <button 
-                            onClick={handleSaveConfig}
-                            className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors flex items-center gap-1"
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">自动备份 (由服务端定时上传)</label>
+                        <select
+                            value={intervalHours}
+                            onChange={(e) => setIntervalHours(Number(e.target.value) as BackupIntervalHours)}
+                            className="w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
                         >
-                            <Save size={12} /> 保存配置
-                        </button>
-                        {testResult === 'success' && <span className="text-xs text-green-500 flex items-center gap-1"><CheckCircle2 size={12}/> 连接成功</span>}
-                        {testResult === 'fail' && <span className="text-xs text-red-500 flex items-center gap-1"><AlertCircle size={12}/> 连接失败</span>}
+                            {INTERVAL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
                     </div>
+
+                    {renderRetentionFields(retention, setRetention)}
+
+                    {serverConfig && (
+                        <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/30 text-xs space-y-1">
+                            <div className="flex items-center gap-2">
+                                <Clock size={12} className="text-slate-400" />
+                                {serverConfig.lastRun ? (
+                                    serverConfig.lastRun.ok ? (
+                                        <span className="text-green-600 dark:text-green-400">
+                                            上次备份 {formatTime(serverConfig.lastRun.at)} 成功（{serverConfig.lastRun.linkCount} 个链接，{serverConfig.lastRun.categoryCount} 个分类）
+                                        </span>
+                                    ) : (
+                                        <span className="text-red-500">上次备份 {formatTime(serverConfig.lastRun.at)} 失败：{serverConfig.lastRun.error}</span>
+                                    )
+                                ) : (
+                                    <span className="text-slate-500">尚未执行过服务端备份</span>
+                                )}
+                                <button
+                                    onClick={handleRunServerBackup}
+                                    disabled={isRunning}
+                                    className="ml-auto flex items-center gap-1 text-blue-600 hover:underline disabled:opacity-50"
+                                >
+                                    {isRunning ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} 立即备份
+                                </button>
+                            </div>
+                            <div className="text-slate-500 pl-5">
+                                {serverConfig.encrypted
+                                    ? serverConfig.canEncrypt ? '自动备份使用备份密码加密' : '自动备份已加密，但服务端未设置 AUTH_SECRET：能读取服务端存储的人也能解密自动备份'
+                                    : serverConfig.canEncrypt ? '自动备份未加密（勾选下方「加密备份」并保存配置即可开启）' : '自动备份未加密（加密自动备份需要先在服务端设置 AUTH_SECRET 环境变量）'}
+                            </div>
+                            {serverConfig.nextRunAt && serverConfig.enabled && (
+                                <div className="text-slate-500 pl-5">下次自动备份约在 {formatTime(Math.max(serverConfig.nextRunAt, Date.now()))}</div>
+                            )}
+                        </div>
+                    )}
+
+                    {renderConfigActions(handleSaveConfig)}
                 </div>
+                </>)}
             </section>
 
             <hr className="border-slate-200 dark:border-slate-700" />
 
             {/* Section 2: Sync Actions */}
             <section className="space-y-4">
-                <h4 className="font-medium text-slate-800 dark:text-slate-200">云端同步操作</h4>
-                <div className="grid grid-cols-2 gap-4">
+                <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-slate-800 dark:text-slate-200">云端同步操作</h4>
+                    <label className="flex items-center gap-2 cursor-pointer" title="同时用于上传到云端和导出 JSON 备份">
+                        <input
+                            type="checkbox"
+                            checked={includeSecrets}
+                            onChange={(e) => setIncludeSecrets(e.target.checked)}
+                            className="rounded text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="text-xs text-slate-600 dark:text-slate-400">备份中包含 AI API Key 和 WebDAV 密码</span>
+                    </label>
+                </div>
+                <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/30 space-y-3">
+                    <label className="flex items-center gap-2 cursor-pointer" title="同时用于上传到云端、导出 JSON 和保存后的 WebDAV 自动备份">
+                        <input
+                            type="checkbox"
+                            checked={encrypt}
+                            onChange={(e) => setEncrypt(e.target.checked)}
+                            className="rounded text-blue-600 focus:ring-blue-500"
+                        />
+                        <Lock size={14} className="text-slate-500" />
+                        <span className="text-sm text-slate-700 dark:text-slate-300">加密备份 (AES-GCM，密钥由备份密码派生)</span>
+                    </label>
+                    {encrypt && (
+                        <>
+                            <div className="grid grid-cols-2 gap-4">
+                                <input
+                                    type="password"
+                                    value={passphrase}
+                                    onChange={(e) => setPassphrase(e.target.value)}
+                                    placeholder={serverConfig?.encrypted ? '备份密码（自动备份已加密，留空则不修改）' : '备份密码'}
+                                    autoComplete="new-password"
+                                    className="w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <input
+                                    type="password"
+                                    value={passphraseConfirm}
+                                    onChange={(e) => setPassphraseConfirm(e.target.value)}
+                                    placeholder="再次输入备份密码"
+                                    autoComplete="new-password"
+                                    className="w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                            <p className="text-xs text-slate-500">备份密码只在浏览器中使用，不会上传；存储服务商只能看到密文。忘记密码将无法恢复加密的备份。</p>
+                        </>
+                    )}
+                </div>
+                <div className="grid grid-cols-3 gap-4">
                     <button 
                         onClick={handleBackupToCloud}
-                        disabled={!config.enabled}
+                        disabled={!remote.ready}
                         className="flex flex-col items-center justify-center p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
                     >
                         <Upload className="w-8 h-8 text-blue-500 mb-2 group-hover:-translate-y-1 transition-transform" />
-                        <span className="text-sm font-medium dark:text-white">上传备份到 WebDAV</span>
-                        <span className="text-xs text-slate-500 mt-1">覆盖云端数据</span>
+                        <span className="text-sm font-medium dark:text-white">上传备份到 {remote.label}</span>
+                        <span className="text-xs text-slate-500 mt-1">新增一份带时间戳的备份</span>
                     </button>
 
                     <button 
-                        onClick={handleRestoreFromCloud}
-                        disabled={!config.enabled}
+                        onClick={handleListBackups}
+                        disabled={!remote.ready}
                         className="flex flex-col items-center justify-center p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
                     >
                         <Download className="w-8 h-8 text-purple-500 mb-2 group-hover:-translate-y-1 transition-transform" />
-                        <span className="text-sm font-medium dark:text-white">从 WebDAV 恢复</span>
-                        <span className="text-xs text-slate-500 mt-1">覆盖本地数据</span>
+                        <span className="text-sm font-medium dark:text-white">从 {remote.label} 恢复</span>
+                        <span className="text-xs text-slate-500 mt-1">选择备份，覆盖本地数据</span>
+                    </button>
+
+                    <button
+                        onClick={handleTwoWaySync}
+                        disabled={!remote.ready || syncStatus === 'syncing'}
+                        className="flex flex-col items-center justify-center p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
+                    >
+                        <ArrowLeftRight className="w-8 h-8 text-green-500 mb-2 group-hover:-translate-y-1 transition-transform" />
+                        <span className="text-sm font-medium dark:text-white">双向同步</span>
+                        <span className="text-xs text-slate-500 mt-1">合并最新备份与本地数据</span>
                     </button>
                 </div>
+
+                {syncSummary && (
+                    <div className="rounded-xl border border-slate-200 dark:border-slate-700 text-xs divide-y divide-slate-100 dark:divide-slate-700">
+                        {SYNC_SIDES.map(side => (
+                            <div key={side} className="p-3 flex flex-wrap items-center gap-x-4 gap-y-1">
+                                <span className="font-medium text-slate-700 dark:text-slate-200 w-14">{side === 'local' ? '本地' : remote.label}</span>
+                                {SYNC_CHANGES.map(change => {
+                                    const names = syncSummary[side][change.key];
+                                    return (
+                                        <span key={change.key} title={names.join('\n')} className={names.length ? 'text-slate-700 dark:text-slate-300' : 'text-slate-400'}>
+                                            {change.label} {names.length}
+                                            {names.length > 0 && <span className="text-slate-400">（{names.slice(0, 3).join('、')}{names.length > 3 ? ' 等' : ''}）</span>}
+                                        </span>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {backupFiles && (
+                    <div className="rounded-xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700 max-h-64 overflow-y-auto">
+                        {backupFiles.length === 0 && (
+                            <div className="p-4 text-center text-sm text-slate-400">{backupTarget === 's3' ? 'Bucket 中还没有备份' : 'WebDAV 目录中还没有备份'}</div>
+                        )}
+                        {backupFiles.map(file => (
+                            <div key={file.name} className={`p-3 text-sm ${preview?.name === file.name ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+                                <button
+                                    onClick={() => handlePreviewBackup(file.name)}
+                                    disabled={loadingFile !== null}
+                                    className="w-full flex items-center gap-2 text-left"
+                                >
+                                    <span className="flex-1 dark:text-slate-200">{file.createdAt ? formatTime(file.createdAt) : file.name}</span>
+                                    {file.size !== undefined && <span className="text-xs text-slate-400">{formatSize(file.size)}</span>}
+                                    {loadingFile === file.name && <Loader2 size={12} className="animate-spin text-slate-400" />}
+                                </button>
+                                {preview?.name === file.name && (
+                                    <div className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-slate-300">
+                                        {preview.encrypted && <Lock size={12} className="text-slate-400" />}
+                                        <span>
+                                            {preview.state.links.length} 个链接，{preview.state.categories.length} 个分类
+                                            {describeExtras(preview.state) && `，${describeExtras(preview.state)}`}
+                                        </span>
+                                        <span className="text-slate-400">（当前 {links.length} 个链接，{categories.length} 个分类）</span>
+                                        <button
+                                            onClick={handleRestoreFromCloud}
+                                            className="ml-auto px-3 py-1 font-medium bg-purple-600 text-white hover:bg-purple-700 rounded-md transition-colors"
+                                        >
+                                            恢复此备份
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
                 
                 {syncStatus !== 'idle' && (
                     <div className={`text-sm text-center p-2 rounded ${
@@ -206,9 +872,30 @@ const BackupModal: React.FC<BackupModalProps> = ({
 
             <hr className="border-slate-200 dark:border-slate-700" />
 
-             {/* Section 3: HTML Export */}
+             {/* Section 3: Local Export */}
              <section className="space-y-4">
                 <h4 className="font-medium text-slate-800 dark:text-slate-200">本地导出</h4>
+                <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-700/30 flex items-center justify-between gap-4">
+                    <div>
+                        <h5 className="text-sm font-medium dark:text-slate-200">JSON 完整备份</h5>
+                        <p className="text-xs text-slate-500 mt-1">包含链接、分类、网站设置、搜索引擎、AI 与 WebDAV 配置，可随时导入恢复</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 hover:border-blue-500 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                        >
+                            <Upload size={16} /> 导入
+                        </button>
+                        <button
+                            onClick={handleExportJson}
+                            className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 hover:border-blue-500 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                        >
+                            <FileJson size={16} /> 导出 JSON
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImportJson} className="hidden" />
+                    </div>
+                </div>
                 <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-700/30 flex items-center justify-between">
                     <div>
                         <h5 className="text-sm font-medium dark:text-slate-200">导出 HTML 书签文件</h5>
@@ -222,9 +909,47 @@ const BackupModal: React.FC<BackupModalProps> = ({
                     </button>
                 </div>
              </section>
+            </>)}
 
         </div>
       </div>
+
+      {passphrasePrompt && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/30">
+            <form
+                onSubmit={(e) => { e.preventDefault(); closePassphrasePrompt(promptValue); }}
+                className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-sm p-5 space-y-4 border border-slate-200 dark:border-slate-700"
+            >
+                <h4 className="font-medium text-slate-800 dark:text-slate-200 flex items-center gap-2">
+                    <Lock size={16} className="text-blue-500" /> 该备份已加密
+                </h4>
+                <input
+                    type="password"
+                    autoFocus
+                    value={promptValue}
+                    onChange={(e) => setPromptValue(e.target.value)}
+                    placeholder="请输入备份密码"
+                    className="w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="flex justify-end gap-2">
+                    <button
+                        type="button"
+                        onClick={() => closePassphrasePrompt(null)}
+                        className="px-3 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 dark:text-slate-200 rounded-md transition-colors"
+                    >
+                        取消
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!promptValue}
+                        className="px-3 py-1.5 text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                    >
+                        解密
+                    </button>
+                </div>
+            </form>
+        </div>
+      )}
     </div>
   );
 };
@@ -6,24 +6,29 @@ interface CategoryAuthModalProps {
   isOpen: boolean;
   onClose: () => void;
   category: Category | null;
-  onUnlock: (categoryId: string) => void;
+  onUnlock: (categoryId: string, password: string) => Promise<boolean | string>;
 }
 
 const CategoryAuthModal: React.FC<CategoryAuthModalProps> = ({ isOpen, onClose, category, onUnlock }) => {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
 
   if (!isOpen || !category) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === category.password) {
-        onUnlock(category.id);
+    setIsLoading(true);
+    setError('');
+
+    // 密码由服务端校验
+    const result = await onUnlock(category.id, password);
+    setIsLoading(false);
+    if (result === true) {
         setPassword('');
-        setError('');
         onClose();
     } else {
-        setError('密码错误');
+        setError(typeof result === 'string' ? result : '密码错误');
     }
   };
 
@@ -64,10 +69,10 @@ const CategoryAuthModal: React.FC<CategoryAuthModalProps> = ({ isOpen, onClose,
 
           <button
             type="submit"
-            disabled={!password}
-            className="w-full bg-amber-500 hover:bg-amber-600 text-white font-bold py-3 px-4 rounded-xl transition-colors shadow-lg shadow-amber-500/30 flex items-center justify-center gap-2"
+            disabled={isLoading || !password}
+            className="w-full bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white font-bold py-3 px-4 rounded-xl transition-colors shadow-lg shadow-amber-500/30 flex items-center justify-center gap-2"
           >
-            解锁 <ArrowRight size={18} />
+            {isLoading ? <Loader2 className="animate-spin" /> : <>解锁 <ArrowRight size={18} /></>}
           </button>
         </form>
       </div>
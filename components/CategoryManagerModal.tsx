@@ -1,8 +1,9 @@
 
 import React, { useState } from 'react';
-import { X, ArrowUp, ArrowDown, Trash2, Edit2, Plus, Check, Lock, Merge, Smile } from 'lucide-react';
+import { X, ArrowUp, ArrowDown, Trash2, Edit2, Plus, Check, Lock, Unlock, Merge, Smile, Share2 } from 'lucide-react';
 import { Category, LinkItem } from '../types';
 import Icon from './Icon';
+import CategorySharePanel from './CategorySharePanel';
 
 interface CategoryManagerModalProps {
   isOpen: boolean;
@@ -10,7 +11,10 @@ interface CategoryManagerModalProps {
   categories: Category[];
   links: LinkItem[];
   onUpdateCategories: (newCategories: Category[], newLinks?: LinkItem[]) => void;
-  onDeleteCategory: (id: string) => void;
+  onDeleteCategory: (id: string, moveTo?: string) => void;
+  onReorderCategories: (newCategories: Category[]) => void;
+  authToken: string;
+  onShowQr: (title: string, url: string) => void;
 }
 
 // 预定义常用图标列表
@@ -43,12 +47,16 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
   categories, 
   links,
   onUpdateCategories,
-  onDeleteCategory
+  onDeleteCategory,
+  onReorderCategories,
+  authToken,
+  onShowQr
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editIcon, setEditIcon] = useState('');
   const [editPassword, setEditPassword] = useState('');
+  const [removePassword, setRemovePassword] = useState(false);
   
   const [newCatName, setNewCatName] = useState('');
   const [newCatIcon, setNewCatIcon] = useState('Folder');
@@ -58,6 +66,8 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
   const [mergingCatId, setMergingCatId] = useState<string | null>(null);
   const [targetMergeId, setTargetMergeId] = useState<string>('');
 
+  const [sharingCatId, setSharingCatId] = useState<string | null>(null);
+
   if (!isOpen) return null;
 
   const handleMove = (index: number, direction: 'up' | 'down') => {
@@ -67,24 +77,28 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
     } else if (direction === 'down' && index < newCats.length - 1) {
       [newCats[index], newCats[index + 1]] = [newCats[index + 1], newCats[index]];
     }
-    onUpdateCategories(newCats);
+    onReorderCategories(newCats);
   };
 
   const startEdit = (cat: Category) => {
     setEditingId(cat.id);
     setEditName(cat.name);
     setEditIcon(cat.icon || 'Folder');
-    setEditPassword(cat.password || '');
+    // 已存储的密码不会下发到浏览器，留空表示保持不变
+    setEditPassword('');
+    setRemovePassword(false);
     setMergingCatId(null);
   };
 
   const saveEdit = () => {
     if (!editingId || !editName.trim()) return;
+    // 新密码只发送一次，由服务端哈希存储；移除密码时清除加密标记
     const newCats = categories.map(c => c.id === editingId ? { 
         ...c, 
         name: editName.trim(),
         icon: editIcon.trim(),
-        password: editPassword.trim() || undefined
+        password: removePassword ? undefined : (editPassword.trim() || undefined),
+        locked: removePassword ? false : c.locked
     } : c);
     onUpdateCategories(newCats);
     setEditingId(null);
@@ -117,13 +131,8 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
 
       if (!confirm('确定合并吗？合并后原分类将被删除。')) return;
 
-      // 1. Move all links
-      const newLinks = links.map(l => l.categoryId === mergingCatId ? { ...l, categoryId: targetMergeId } : l);
-
-      // 2. Remove old category
-      const newCats = categories.filter(c => c.id !== mergingCatId);
-
-      onUpdateCategories(newCats, newLinks);
+      // Deleting with a target moves all links there first
+      onDeleteCategory(mergingCatId, targetMergeId);
       setMergingCatId(null);
   };
 
@@ -192,12 +201,24 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
                           <div className="flex items-center gap-2">
                               <Lock size={14} className="text-slate-400" />
                               <input 
-                                type="text" 
+                                type="password" 
                                 value={editPassword}
                                 onChange={(e) => setEditPassword(e.target.value)}
-                                className="flex-1 p-1.5 px-2 text-xs rounded border border-slate-300 dark:border-slate-600 dark:bg-slate-800 dark:text-white outline-none"
-                                placeholder="设置密码 (留空则不加密)"
+                                disabled={removePassword}
+                                autoComplete="new-password"
+                                className="flex-1 p-1.5 px-2 text-xs rounded border border-slate-300 dark:border-slate-600 dark:bg-slate-800 dark:text-white outline-none disabled:opacity-50"
+                                placeholder={cat.locked ? "重置密码 (留空则保持不变)" : "设置密码 (留空则不加密)"}
                               />
+                              {cat.locked && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setRemovePassword(!removePassword)}
+                                    className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors ${removePassword ? 'border-red-300 bg-red-50 text-red-600 dark:bg-red-900/20 dark:border-red-800' : 'border-slate-300 dark:border-slate-600 text-slate-500 hover:text-red-500'}`}
+                                    title="移除该分类的密码"
+                                  >
+                                    <Unlock size={12} /> {removePassword ? '将移除密码' : '移除密码'}
+                                  </button>
+                              )}
                           </div>
                       </div>
                     ) : mergingCatId === cat.id ? (
@@ -226,7 +247,7 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
                           <div className="flex flex-col">
                             <div className="flex items-center gap-2">
                                 <span className="font-medium dark:text-slate-200 truncate">{cat.name}</span>
-                                {cat.password && <Lock size={12} className="text-amber-500" />}
+                                {cat.locked && <Lock size={12} className="text-amber-500" />}
                             </div>
                             <span className="text-xs text-slate-400">{links.filter(l => l.categoryId === cat.id).length} 个链接</span>
                           </div>
@@ -243,6 +264,9 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
                         <button onClick={() => openMerge(cat.id)} className="p-1.5 text-slate-400 hover:text-purple-500 hover:bg-slate-200 dark:hover:bg-slate-600 rounded" title="合并到其他分类">
                             <Merge size={14} />
                         </button>
+                        <button onClick={() => setSharingCatId(sharingCatId === cat.id ? null : cat.id)} className={`p-1.5 hover:bg-slate-200 dark:hover:bg-slate-600 rounded ${sharingCatId === cat.id ? 'text-blue-500' : 'text-slate-400 hover:text-blue-500'}`} title="只读分享">
+                            <Share2 size={14} />
+                        </button>
                         <button 
                         onClick={() => { if(confirm(`确定删除"${cat.name}"分类吗？该分类下的书签将移动到"常用推荐"。`)) onDeleteCategory(cat.id); }}
                         className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
@@ -256,6 +280,9 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
                        <button onClick={saveEdit} className="self-start mt-2 text-green-500 hover:bg-green-50 dark:hover:bg-slate-600 p-1.5 rounded bg-white dark:bg-slate-800 shadow-sm border border-slate-200 dark:border-slate-600"><Check size={16}/></button>
                   )}
               </div>
+              {sharingCatId === cat.id && editingId !== cat.id && (
+                  <CategorySharePanel authToken={authToken} category={cat} onShowQr={onShowQr} />
+              )}
             </div>
           ))}
         </div>
@@ -293,7 +320,8 @@ const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
                  <div className="flex-1 relative">
                     <Lock size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
                     <input 
-                        type="text"
+                        type="password"
+                        autoComplete="new-password"
                         value={newCatPassword}
                         onChange={(e) => setNewCatPassword(e.target.value)}
                         placeholder="密码 (可选)"
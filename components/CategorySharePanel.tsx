@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Loader2, Copy, Check, QrCode } from 'lucide-react';
+import { Category, CategoryShare } from '../types';
+import { authHeaders } from '../services/authService';
+import { shareUrl, spaceUrl } from '../services/spaceService';
+
+interface CategorySharePanelProps {
+  authToken: string;
+  category: Category;
+  onShowQr: (title: string, url: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { value: 0, label: '永不过期' },
+  { value: 1, label: '1 天' },
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+];
+
+const CategorySharePanel: React.FC<CategorySharePanelProps> = ({ authToken, category, onShowQr }) => {
+  const [shares, setShares] = useState<CategoryShare[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [label, setLabel] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+        setIsLoading(true);
+        try {
+            const res = await fetch(spaceUrl(`/api/shares?categoryId=${encodeURIComponent(category.id)}`), { headers: authHeaders(authToken) });
+            if (res.ok) setShares((await res.json()).shares || []);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+    load();
+  }, [category.id, authToken]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+        const res = await fetch(spaceUrl('/api/shares'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders(authToken) },
+            body: JSON.stringify({
+                categoryId: category.id,
+                label: label.trim() || undefined,
+                expiresAt: expiryDays ? Date.now() + expiryDays * DAY_MS : undefined,
+            })
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const share: CategoryShare = await res.json();
+        setShares(prev => [...prev, share]);
+        setLabel('');
+    } catch (e) {
+        alert('创建分享链接失败');
+    } finally {
+        setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: CategoryShare) => {
+    if (!confirm('确定吊销该分享链接吗？已分发的地址将立即失效。')) return;
+    const res = await fetch(spaceUrl(`/api/shares/${encodeURIComponent(share.id)}`), {
+        method: 'DELETE',
+        headers: authHeaders(authToken)
+    });
+    if (res.ok || res.status === 404) {
+        setShares(prev => prev.filter(s => s.id !== share.id));
+    } else {
+        alert('吊销失败');
+    }
+  };
+
+  const handleCopy = (share: CategoryShare) => {
+    navigator.clipboard.writeText(shareUrl(share.id));
+    setCopiedId(share.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="space-y-2 bg-blue-50 dark:bg-blue-900/20 p-2 rounded">
+        {category.locked && <div className="text-xs text-amber-600">该分类已加密，持有分享链接的人无需密码即可查看。</div>}
+
+        {isLoading && <div className="flex justify-center py-2 text-slate-400"><Loader2 size={16} className="animate-spin" /></div>}
+
+        {shares.map(share => (
+            <div key={share.id} className="flex items-center gap-2 text-xs">
+                <div className="flex-1 min-w-0">
+                    <div className="truncate dark:text-slate-200">{share.label || shareUrl(share.id)}</div>
+                    <div className="text-slate-400">
+                        {share.expiresAt ? `有效期至 ${new Date(share.expiresAt).toLocaleString()}` : '永不过期'}
+                    </div>
+                </div>
+                <button onClick={() => handleCopy(share)} className="p-1 text-slate-400 hover:text-blue-500" title="复制链接">
+                    {copiedId === share.id ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                </button>
+                <button onClick={() => onShowQr(category.name, shareUrl(share.id))} className="p-1 text-slate-400 hover:text-blue-500" title="二维码">
+                    <QrCode size={14} />
+                </button>
+                <button onClick={() => handleRevoke(share)} className="p-1 text-slate-400 hover:text-red-500" title="吊销">
+                    <Trash2 size={14} />
+                </button>
+            </div>
+        ))}
+        {!isLoading && shares.length === 0 && <div className="text-xs text-slate-400">暂无分享链接</div>}
+
+        <div className="flex items-center gap-2">
+            <input
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                placeholder="备注 (可选)"
+                className="flex-1 min-w-0 text-xs p-1 rounded border border-slate-300 dark:border-slate-600 dark:bg-slate-800 dark:text-white outline-none"
+            />
+            <select
+                value={expiryDays}
+                onChange={e => setExpiryDays(Number(e.target.value))}
+                className="text-xs p-1 rounded border border-slate-300 dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+            >
+                {EXPIRY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <button onClick={handleCreate} disabled={isCreating} className="text-xs bg-blue-600 text-white px-2 py-1 rounded flex items-center gap-1 disabled:opacity-50">
+                {isCreating ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />} 生成
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default CategorySharePanel;
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, X, Monitor, Cloud } from 'lucide-react';
+import { MergeConflict, ConflictChoice, conflictKey } from '../services/mergeService';
+
+interface ConflictModalProps {
+  isOpen: boolean;
+  conflicts: MergeConflict[];
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<MergeConflict['kind'], string> = {
+  link: '链接',
+  category: '分类',
+  settings: '网站设置',
+};
+
+const describeVersion = (conflict: MergeConflict, side: ConflictChoice): string => {
+  if (conflict.kind === 'link') {
+    const link = side === 'local' ? conflict.local : conflict.remote;
+    return link ? `${link.title} · ${link.url}` : '已删除';
+  }
+  if (conflict.kind === 'category') {
+    const category = side === 'local' ? conflict.local : conflict.remote;
+    return category ? category.name : '已删除';
+  }
+  const settings = side === 'local' ? conflict.local : conflict.remote;
+  return settings ? `${settings.title} · ${settings.navTitle}` : '默认设置';
+};
+
+const ConflictModal: React.FC<ConflictModalProps> = ({ isOpen, conflicts, onResolve, onClose }) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+        setChoices(Object.fromEntries(conflicts.map(c => [conflictKey(c), 'local' as ConflictChoice])));
+    }
+  }, [isOpen, conflicts]);
+
+  if (!isOpen) return null;
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflicts.map(c => [conflictKey(c), choice])));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[85vh]">
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg font-semibold dark:text-white flex items-center gap-2">
+            <AlertTriangle className="text-amber-500" size={20} /> 同步冲突
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition-colors">
+            <X className="w-5 h-5 dark:text-slate-400" />
+          </button>
+        </div>
+
+        <div className="px-4 pt-4 text-sm text-slate-500 dark:text-slate-400">
+          其他设备在您编辑期间修改了相同的内容，其余改动已自动合并。请为以下 {conflicts.length} 项选择要保留的版本：
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {conflicts.map(conflict => {
+            const key = conflictKey(conflict);
+            return (
+              <div key={key} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg border border-slate-100 dark:border-slate-600 space-y-2">
+                <div className="text-xs font-semibold text-slate-500 uppercase">{KIND_LABELS[conflict.kind]}</div>
+                {(['local', 'remote'] as ConflictChoice[]).map(side => (
+                  <label key={side} className={`flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition-colors ${choices[key] === side ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-200 dark:border-slate-600 hover:border-blue-300'}`}>
+                    <input
+                      type="radio"
+                      name={key}
+                      checked={choices[key] === side}
+                      onChange={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    {side === 'local' ? <Monitor size={14} className="text-slate-400 shrink-0" /> : <Cloud size={14} className="text-slate-400 shrink-0" />}
+                    <span className="text-xs text-slate-500 shrink-0">{side === 'local' ? '本设备' : '云端'}</span>
+                    <span className="text-sm dark:text-slate-200 truncate">{describeVersion(conflict, side)}</span>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 flex items-center gap-2">
+          <button onClick={() => chooseAll('local')} className="px-3 py-1.5 text-xs font-medium bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-md hover:border-blue-500 transition-colors dark:text-slate-200">
+            全部保留本设备
+          </button>
+          <button onClick={() => chooseAll('remote')} className="px-3 py-1.5 text-xs font-medium bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-md hover:border-blue-500 transition-colors dark:text-slate-200">
+            全部使用云端
+          </button>
+          <button onClick={() => onResolve(choices)} className="ml-auto px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors">
+            合并并同步
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictModal;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, Loader2, RotateCcw, ArrowLeft } from 'lucide-react';
+import { ChangeCounts, LinkItem, RevisionDiff, RevisionSummary } from '../types';
+import { authHeaders } from '../services/authService';
+import { spaceUrl } from '../services/spaceService';
+import { SyncSnapshot } from '../services/mergeService';
+
+interface HistoryPanelProps {
+  authToken: string;
+  onRestored: (data: SyncSnapshot) => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+// e.g. "+3 -1 ~2", empty when nothing changed
+const formatCounts = (counts: ChangeCounts) => [
+  counts.added ? `+${counts.added}` : '',
+  counts.removed ? `-${counts.removed}` : '',
+  counts.updated ? `~${counts.updated}` : '',
+].filter(Boolean).join(' ');
+
+const PREVIEW_LIMIT = 30;
+
+const LinkList: React.FC<{ title: string; links: LinkItem[]; className: string }> = ({ title, links, className }) => {
+  if (links.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className={`text-xs font-semibold ${className}`}>{title} ({links.length})</div>
+      {links.slice(0, PREVIEW_LIMIT).map(link => (
+        <div key={link.id} className="text-xs text-slate-600 dark:text-slate-300 truncate">
+          {link.title} <span className="text-slate-400">· {link.url}</span>
+        </div>
+      ))}
+      {links.length > PREVIEW_LIMIT && <div className="text-xs text-slate-400">…还有 {links.length - PREVIEW_LIMIT} 项</div>}
+    </div>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ authToken, onRestored }) => {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [selected, setSelected] = useState<RevisionSummary | null>(null);
+  const [preview, setPreview] = useState<{ snapshot: SyncSnapshot; diff: RevisionDiff } | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+        const res = await fetch(spaceUrl('/api/history'), { headers: authHeaders(authToken) });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data = await res.json();
+        setRevisions(data.revisions || []);
+    } catch (e) {
+        setError('加载历史版本失败');
+    } finally {
+        setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authToken) loadRevisions();
+  }, [authToken]);
+
+  const openPreview = async (entry: RevisionSummary) => {
+    setSelected(entry);
+    setPreview(null);
+    setError('');
+    try {
+        const [snapshotRes, diffRes] = await Promise.all([
+            fetch(spaceUrl(`/api/history/${entry.revision}`), { headers: authHeaders(authToken) }),
+            fetch(spaceUrl(`/api/history/${entry.revision}/diff`), { headers: authHeaders(authToken) }),
+        ]);
+        if (!snapshotRes.ok || !diffRes.ok) throw new Error('Preview failed');
+        setPreview({ snapshot: await snapshotRes.json(), diff: await diffRes.json() });
+    } catch (e) {
+        setError('加载版本详情失败');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`确定恢复到版本 #${selected.revision} 吗？当前数据会保留为一个新的历史版本。`)) return;
+
+    setIsRestoring(true);
+    try {
+        const res = await fetch(spaceUrl(`/api/history/${selected.revision}/restore`), {
+            method: 'POST',
+            headers: authHeaders(authToken)
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const { data } = await res.json();
+        onRestored(data);
+        setSelected(null);
+        setPreview(null);
+        loadRevisions();
+    } catch (e) {
+        alert('恢复失败');
+    } finally {
+        setIsRestoring(false);
+    }
+  };
+
+  if (selected) {
+    const diff = preview?.diff;
+    const unchanged = diff && !diff.settings && [diff.links, diff.categories].every(d => d.added.length + d.removed.length + d.updated.length === 0);
+
+    return (
+      <div className="space-y-4 animate-in fade-in duration-300">
+        <div className="flex items-center gap-2">
+            <button onClick={() => { setSelected(null); setPreview(null); }} className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg">
+                <ArrowLeft size={16} />
+            </button>
+            <div className="flex-1">
+                <h4 className="font-medium text-slate-800 dark:text-slate-200">版本 #{selected.revision}</h4>
+                <p className="text-xs text-slate-500">{formatTime(selected.updatedAt)} · {selected.linkCount} 个链接 · {selected.categoryCount} 个分类</p>
+            </div>
+            <button
+                onClick={handleRestore}
+                disabled={!preview || isRestoring || unchanged}
+                className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+                {isRestoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />} 恢复到此版本
+            </button>
+        </div>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        {!preview && !error && <div className="flex justify-center py-8 text-slate-400"><Loader2 className="animate-spin" /></div>}
+
+        {preview && diff && (
+            <>
+                <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/30 space-y-2">
+                    <div className="text-xs font-semibold text-slate-500">该版本的分类</div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {preview.snapshot.categories.map(cat => (
+                            <span key={cat.id} className="text-xs px-2 py-0.5 rounded bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 dark:text-slate-300">
+                                {cat.name} <span className="text-slate-400">{preview.snapshot.links.filter(l => l.categoryId === cat.id).length}</span>
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    <div className="text-xs font-semibold text-slate-500">恢复后与当前数据相比：</div>
+                    {unchanged && <div className="text-sm text-slate-400">与当前数据相同</div>}
+                    <LinkList title="将恢复的链接" links={diff.links.added} className="text-green-600" />
+                    <LinkList title="将移除的链接" links={diff.links.removed} className="text-red-500" />
+                    <LinkList title="将还原修改的链接" links={diff.links.updated.map(u => u.after)} className="text-amber-600" />
+                    {(diff.categories.added.length + diff.categories.removed.length + diff.categories.updated.length) > 0 && (
+                        <div className="text-xs text-slate-600 dark:text-slate-300">
+                            分类：{diff.categories.added.length > 0 && `恢复 ${diff.categories.added.map(c => c.name).join('、')}；`}
+                            {diff.categories.removed.length > 0 && `移除 ${diff.categories.removed.map(c => c.name).join('、')}；`}
+                            {diff.categories.updated.length > 0 && `还原 ${diff.categories.updated.map(u => u.after.name).join('、')}`}
+                        </div>
+                    )}
+                    {diff.settings && <div className="text-xs text-slate-600 dark:text-slate-300">网站设置将被还原</div>}
+                </div>
+            </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 animate-in fade-in duration-300">
+        <div className="flex items-center justify-between">
+            <div>
+                <h4 className="font-medium text-slate-800 dark:text-slate-200">版本历史</h4>
+                <p className="text-xs text-slate-500 mt-1">服务端会保留最近的若干次修改，可预览后回滚到任意版本。</p>
+            </div>
+            <button
+                onClick={loadRevisions}
+                disabled={isLoading}
+                className="p-2 text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                title="刷新"
+            >
+                {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+            </button>
+        </div>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="space-y-2">
+            {revisions.map((entry, index) => {
+                const links = formatCounts(entry.changes.links);
+                const categories = formatCounts(entry.changes.categories);
+                return (
+                    <button
+                        key={entry.revision}
+                        onClick={() => openPreview(entry)}
+                        className="w-full text-left flex items-center gap-3 p-3 bg-white dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-600 hover:border-blue-400 transition-colors"
+                    >
+                        <span className="text-xs font-mono text-slate-400 w-10 shrink-0">#{entry.revision}</span>
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 text-sm dark:text-slate-200">
+                                {formatTime(entry.updatedAt)}
+                                {index === 0 && <span className="text-[10px] px-1.5 py-0.5 rounded bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">当前</span>}
+                                {entry.restoredFrom !== undefined && <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">回滚自 #{entry.restoredFrom}</span>}
+                            </div>
+                            <div className="text-xs text-slate-400 truncate">
+                                {entry.linkCount} 个链接 · {entry.categoryCount} 个分类
+                                {links && ` · 链接 ${links}`}
+                                {categories && ` · 分类 ${categories}`}
+                                {entry.changes.settings && ' · 网站设置'}
+                            </div>
+                        </div>
+                    </button>
+                );
+            })}
+            {!isLoading && revisions.length === 0 && !error && (
+                <div className="text-center py-6 text-slate-400 text-sm">暂无历史版本，下次保存后开始记录</div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
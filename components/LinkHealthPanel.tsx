@@ -0,0 +1,206 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Activity, Loader2, Square, Trash2, ArrowRight, AlertTriangle } from 'lucide-react';
+import { Category, LinkHealth, LinkHealthStatus, LinkItem } from '../types';
+import { checkLinks } from '../services/apiService';
+
+interface LinkHealthPanelProps {
+  authToken: string;
+  links: LinkItem[];
+  categories: Category[];
+  onUpdateLinks: (links: LinkItem[], categories?: Category[]) => void;
+  onLinksChecked: (results: Record<string, LinkHealth>) => void;
+}
+
+type Group = LinkHealthStatus | 'unchecked';
+
+// Matches the server's per-request limit; links the server had no subrequests left for come back unchecked
+const BATCH_SIZE = 20;
+
+const QUARANTINE_CATEGORY: Category = { id: 'quarantine', name: '失效链接', icon: 'AlertTriangle' };
+
+const GROUPS: { value: Group; label: string; className: string }[] = [
+  { value: 'broken', label: '失效', className: 'text-red-500' },
+  { value: 'redirect', label: '重定向', className: 'text-amber-600' },
+  { value: 'ok', label: '正常', className: 'text-green-600' },
+  { value: 'unchecked', label: '未检测', className: 'text-slate-400' },
+];
+
+const groupOf = (link: LinkItem): Group => link.health?.status || 'unchecked';
+
+const describeHealth = (health: LinkHealth) => {
+  const parts = [health.httpStatus ? `HTTP ${health.httpStatus}` : health.error || '无法访问'];
+  parts.push(new Date(health.checkedAt).toLocaleString());
+  return parts.join(' · ');
+};
+
+const LinkHealthPanel: React.FC<LinkHealthPanelProps> = ({ authToken, links, categories, onUpdateLinks, onLinksChecked }) => {
+  const [group, setGroup] = useState<Group>('broken');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const stopRef = useRef(false);
+
+  const grouped = useMemo(() => {
+    const result: Record<Group, LinkItem[]> = { broken: [], redirect: [], ok: [], unchecked: [] };
+    links.forEach(link => result[groupOf(link)].push(link));
+    return result;
+  }, [links]);
+
+  const visible = grouped[group];
+  const selectedVisible = visible.filter(l => selected.has(l.id));
+
+  const runCheck = async (targets: LinkItem[]) => {
+    stopRef.current = false;
+    setError('');
+    setProgress({ done: 0, total: targets.length });
+    try {
+        let pending = targets.map(l => l.id);
+        while (pending.length > 0 && !stopRef.current) {
+            const res = await checkLinks(authToken, pending.slice(0, BATCH_SIZE));
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            const { results, unchecked = [] } = await res.json() as { results: { id: string; health: LinkHealth }[]; unchecked?: string[] };
+            if (results.length === 0 && unchecked.length > 0) throw new Error('No link was checked');
+            onLinksChecked(Object.fromEntries(results.map(r => [r.id, r.health])));
+            // Unchecked links go out again at the head of the next batch
+            pending = [...unchecked, ...pending.slice(BATCH_SIZE)];
+            setProgress({ done: targets.length - pending.length, total: targets.length });
+        }
+    } catch (e) {
+        setError('检测失败，请确认已登录后重试');
+    } finally {
+        setProgress(null);
+    }
+  };
+
+  const switchGroup = (value: Group) => {
+    setGroup(value);
+    setSelected(new Set());
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedVisible.length === visible.length ? new Set() : new Set(visible.map(l => l.id)));
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`确定删除选中的 ${selectedVisible.length} 个链接吗？`)) return;
+    onUpdateLinks(links.filter(l => !selected.has(l.id)));
+    setSelected(new Set());
+  };
+
+  const handleFollowRedirects = () => {
+    onUpdateLinks(links.map(l => {
+        if (!selected.has(l.id) || !l.health?.finalUrl) return l;
+        const { health, ...link } = l;
+        return { ...link, url: health.finalUrl! };
+    }));
+    setSelected(new Set());
+  };
+
+  const handleQuarantine = () => {
+    const hasQuarantine = categories.some(c => c.id === QUARANTINE_CATEGORY.id);
+    onUpdateLinks(
+        links.map(l => selected.has(l.id) ? { ...l, categoryId: QUARANTINE_CATEGORY.id } : l),
+        hasQuarantine ? categories : [...categories, QUARANTINE_CATEGORY]
+    );
+    setSelected(new Set());
+  };
+
+  const actionClass = 'flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors disabled:opacity-50';
+
+  return (
+    <div className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 space-y-3">
+        <div className="flex items-center gap-2">
+            <Activity size={16} className="text-slate-400" />
+            <span className="text-sm font-medium dark:text-slate-200">链接检测</span>
+            {progress ? (
+                <>
+                    <span className="text-xs text-slate-500 flex items-center gap-1 ml-auto">
+                        <Loader2 size={12} className="animate-spin" /> {progress.done}/{progress.total}
+                    </span>
+                    <button onClick={() => { stopRef.current = true; }} className={`${actionClass} bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300`}>
+                        <Square size={12} /> 停止
+                    </button>
+                </>
+            ) : (
+                <div className="ml-auto flex gap-2">
+                    {grouped.unchecked.length > 0 && grouped.unchecked.length < links.length && (
+                        <button onClick={() => runCheck(grouped.unchecked)} disabled={!authToken} className={`${actionClass} bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300`}>
+                            检测未检测的
+                        </button>
+                    )}
+                    <button onClick={() => runCheck(links)} disabled={!authToken || links.length === 0} className={`${actionClass} bg-blue-600 text-white hover:bg-blue-700`}>
+                        检测全部链接
+                    </button>
+                </div>
+            )}
+        </div>
+
+        {error && <div className="text-xs text-red-500">{error}</div>}
+
+        <div className="flex gap-3 text-xs">
+            {GROUPS.map(g => (
+                <button
+                    key={g.value}
+                    onClick={() => switchGroup(g.value)}
+                    className={`pb-0.5 border-b-2 ${group === g.value ? 'border-blue-500 font-medium dark:text-slate-200' : 'border-transparent text-slate-500'}`}
+                >
+                    {g.label} <span className={g.className}>{grouped[g.value].length}</span>
+                </button>
+            ))}
+        </div>
+
+        {visible.length > 0 && (
+            <>
+                <div className="flex flex-wrap items-center gap-2">
+                    <label className="flex items-center gap-1 text-xs text-slate-500">
+                        <input type="checkbox" checked={selectedVisible.length === visible.length} onChange={toggleAll} />
+                        全选
+                    </label>
+                    <div className="ml-auto flex gap-2">
+                        <button onClick={handleDelete} disabled={selectedVisible.length === 0} className={`${actionClass} text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/20`}>
+                            <Trash2 size={12} /> 删除
+                        </button>
+                        {group === 'redirect' && (
+                            <button onClick={handleFollowRedirects} disabled={selectedVisible.length === 0} className={`${actionClass} text-amber-700 bg-amber-50 hover:bg-amber-100 dark:bg-amber-900/20`}>
+                                <ArrowRight size={12} /> 更新为跳转地址
+                            </button>
+                        )}
+                        <button onClick={handleQuarantine} disabled={selectedVisible.length === 0} className={`${actionClass} text-slate-700 dark:text-slate-300 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700`}>
+                            <AlertTriangle size={12} /> 移到“{QUARANTINE_CATEGORY.name}”
+                        </button>
+                    </div>
+                </div>
+
+                <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                    {visible.map(link => (
+                        <label key={link.id} className="flex items-start gap-2 p-2 rounded-lg bg-white dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 cursor-pointer">
+                            <input type="checkbox" className="mt-1" checked={selected.has(link.id)} onChange={() => toggle(link.id)} />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm dark:text-slate-200 truncate">{link.title}</div>
+                                <div className="text-xs text-slate-400 truncate">{link.url}</div>
+                                {link.health?.finalUrl && (
+                                    <div className="text-xs text-amber-600 truncate">→ {link.health.finalUrl}</div>
+                                )}
+                            </div>
+                            {link.health && (
+                                <span className="text-[10px] text-slate-400 whitespace-nowrap">{describeHealth(link.health)}</span>
+                            )}
+                        </label>
+                    ))}
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default LinkHealthPanel;
@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
 import { X, Sparkles, Loader2, Pin, AlertTriangle, Wand2, Image as ImageIcon } from 'lucide-react';
-import { LinkItem, Category, AIConfig } from '../types';
+import { LinkItem, Category, AIConfig, PageMetadata } from '../types';
 import { generateLinkDescription, suggestCategory } from '../services/geminiService';
+import { fetchMetadata } from '../services/apiService';
+import { faviconUrl } from '../services/faviconService';
 
 interface LinkModalProps {
   isOpen: boolean;
@@ -12,9 +14,10 @@ interface LinkModalProps {
   existingLinks?: LinkItem[];
   initialData?: LinkItem;
   aiConfig: AIConfig;
+  authToken?: string; // Enables reading the title and description from the page
 }
 
-const LinkModal: React.FC<LinkModalProps> = ({ isOpen, onClose, onSave, categories, existingLinks, initialData, aiConfig }) => {
+const LinkModal: React.FC<LinkModalProps> = ({ isOpen, onClose, onSave, categories, existingLinks, initialData, aiConfig, authToken }) => {
   const [title, setTitle] = useState('');
   const [url, setUrl] = useState('');
   const [iconUrl, setIconUrl] = useState('');
@@ -22,6 +25,7 @@ const LinkModal: React.FC<LinkModalProps> = ({ isOpen, onClose, onSave, categori
   const [categoryId, setCategoryId] = useState(categories[0]?.id || 'common');
   const [pinned, setPinned] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isFetchingMeta, setIsFetchingMeta] = useState(false);
   
   // New State for Icon Auto-fetch
   const [autoFetchIcon, setAutoFetchIcon] = useState(true);
@@ -61,10 +65,8 @@ const LinkModal: React.FC<LinkModalProps> = ({ isOpen, onClose, onSave, categori
             normalizedUrl = 'https://' + targetUrl;
         }
         
-        // Use Google's specialized favicon service which is more robust
-        // t2.gstatic.com is used by Chrome internal pages
-        // fallback_opts=TYPE,SIZE,URL ensures it tries multiple ways to get an icon
-        const newIcon = `https://t2.gstatic.com/faviconV2?client=SOCIAL&type=FAVICON&fallback_opts=TYPE,SIZE,URL&url=${encodeURIComponent(normalizedUrl)}&size=128`;
+        // Our own favicon proxy resolves and caches the icon, and falls back to a letter avatar
+        const newIcon = faviconUrl(normalizedUrl);
         
         setIconUrl(newIcon);
       } catch (e) {
@@ -99,6 +101,27 @@ const LinkModal: React.FC<LinkModalProps> = ({ isOpen, onClose, onSave, categori
       if (autoFetchIcon) {
           fetchIconFromUrl(normalizedUrl);
       }
+
+      // 3. Prefill title / description from the page (new links only, never over what the user typed)
+      if (authToken && !initialData?.id && (!title || !description)) {
+          fillFromPage(normalizedUrl);
+      }
+  };
+
+  const fillFromPage = async (targetUrl: string) => {
+      setIsFetchingMeta(true);
+      try {
+          const res = await fetchMetadata(authToken!, targetUrl);
+          if (!res.ok) return;
+          const meta: PageMetadata = await res.json();
+          const pageTitle = meta.title || meta.ogTitle;
+          if (pageTitle) setTitle(prev => prev || pageTitle);
+          if (meta.description) setDescription(prev => prev || meta.description!);
+      } catch (e) {
+          console.warn('Failed to read page metadata', e);
+      } finally {
+          setIsFetchingMeta(false);
+      }
   };
 
   const handleSave = (e: React.FormEvent) => {
@@ -169,7 +192,10 @@ const LinkModal: React.FC<LinkModalProps> = ({ isOpen, onClose, onSave, categori
 
           {/* Title Input */}
           <div>
-            <label className="block text-sm font-medium mb-1 dark:text-slate-300">标题</label>
+            <label className="flex items-center gap-1 text-sm font-medium mb-1 dark:text-slate-300">
+                标题
+                {isFetchingMeta && <span className="flex items-center gap-1 text-xs font-normal text-slate-400"><Loader2 className="w-3 h-3 animate-spin" /> 正在读取网页信息…</span>}
+            </label>
             <input
                 type="text"
                 required
@@ -0,0 +1,99 @@
+import React, { useState, useMemo } from 'react';
+import { X, Download } from 'lucide-react';
+import { QrErrorCorrection, encodeQr, qrPath, qrToCanvas, qrToSvg } from '../services/qrService';
+
+interface QrCodeModalProps {
+  title: string;
+  url: string;
+  onClose: () => void;
+}
+
+const MARGIN = 4;
+
+const LEVELS: { value: QrErrorCorrection; label: string }[] = [
+  { value: 'L', label: '低 (7%)' },
+  { value: 'M', label: '中 (15%)' },
+  { value: 'Q', label: '较高 (25%)' },
+  { value: 'H', label: '高 (30%)' },
+];
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(href);
+};
+
+// Generated in the browser, so the URL is never sent to a QR service
+const QrCodeModal: React.FC<QrCodeModalProps> = ({ title, url, onClose }) => {
+  const [level, setLevel] = useState<QrErrorCorrection>('M');
+
+  const matrix = useMemo(() => {
+    try {
+        return encodeQr(url, level);
+    } catch (e) {
+        return null;
+    }
+  }, [url, level]);
+
+  const filename = (title || 'qrcode').replace(/[\\/:*?"<>|\s]+/g, '_');
+  const viewSize = matrix ? matrix.length + MARGIN * 2 : 0;
+
+  const handleDownloadSvg = () => {
+    if (!matrix) return;
+    downloadBlob(new Blob([qrToSvg(matrix, MARGIN)], { type: 'image/svg+xml' }), `${filename}.svg`);
+  };
+
+  const handleDownloadPng = () => {
+    if (!matrix) return;
+    qrToCanvas(matrix, 10, MARGIN).toBlob(blob => {
+        if (blob) downloadBlob(blob, `${filename}.png`);
+    }, 'image/png');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+        <div className="relative bg-white p-6 rounded-2xl shadow-2xl flex flex-col items-center gap-4 animate-in zoom-in duration-200" onClick={e => e.stopPropagation()}>
+            <button onClick={onClose} className="absolute top-3 right-3 p-1 text-slate-400 hover:text-slate-600 rounded-full">
+                <X size={16} />
+            </button>
+            <h3 className="font-bold text-lg text-slate-800 max-w-[220px] truncate">{title}</h3>
+            <div className="p-2 border border-slate-200 rounded-lg">
+                {matrix ? (
+                    <svg viewBox={`0 0 ${viewSize} ${viewSize}`} className="w-48 h-48" shapeRendering="crispEdges" role="img" aria-label="QR Code">
+                        <rect width="100%" height="100%" fill="#ffffff" />
+                        <path d={qrPath(matrix, MARGIN)} fill="#000000" />
+                    </svg>
+                ) : (
+                    <div className="w-48 h-48 flex items-center justify-center text-xs text-slate-400 text-center">链接过长，无法生成二维码</div>
+                )}
+            </div>
+            <p className="text-xs text-slate-500 max-w-[200px] truncate select-all" title={url}>{url}</p>
+
+            <div className="flex items-center gap-2 text-xs text-slate-600">
+                <span>容错级别</span>
+                <select
+                    value={level}
+                    onChange={e => setLevel(e.target.value as QrErrorCorrection)}
+                    className="p-1 rounded border border-slate-300 bg-white outline-none"
+                >
+                    {LEVELS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                </select>
+            </div>
+
+            <div className="flex gap-2">
+                <button onClick={handleDownloadPng} disabled={!matrix} className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50">
+                    <Download size={12} /> PNG
+                </button>
+                <button onClick={handleDownloadSvg} disabled={!matrix} className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 rounded-md transition-colors disabled:opacity-50">
+                    <Download size={12} /> SVG
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default QrCodeModal;
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { X, Search, Plus, Trash2, Check, Globe, Wand2 } from 'lucide-react';
 import { SearchEngine } from '../types';
+import { faviconUrl, isImageIcon } from '../services/faviconService';
 
 interface SearchSettingsModalProps {
   isOpen: boolean;
@@ -72,8 +73,8 @@ const SearchSettingsModal: React.FC<SearchSettingsModalProps> = ({
         const urlObj = new URL(normalizedUrl);
         const origin = urlObj.origin;
         
-        // 使用 Google 的 favicon 服务获取图标
-        const newIconUrl = `https://t2.gstatic.com/faviconV2?client=SOCIAL&type=FAVICON&fallback_opts=TYPE,SIZE,URL&url=${encodeURIComponent(origin)}&size=128`;
+        // 使用本站的 favicon 代理获取图标（服务端缓存，取不到时返回字母头像）
+        const newIconUrl = faviconUrl(origin);
         
         setNewIcon(newIconUrl);
       } catch (e) {
@@ -116,7 +117,7 @@ const SearchSettingsModal: React.FC<SearchSettingsModalProps> = ({
                         }`}
                     >
                         <div className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-600 flex items-center justify-center shrink-0 overflow-hidden">
-                            {engine.icon.startsWith('http') ? (
+                            {isImageIcon(engine.icon) ? (
                                 <img src={engine.icon} className="w-full h-full object-cover" />
                             ) : (
                                 <Globe size={16} className="text-slate-500 dark:text-slate-300"/>
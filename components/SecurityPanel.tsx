@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { Monitor, Trash2, RefreshCw, Loader2, LogOut, ShieldAlert, Unlock, KeyRound, Copy, Check, Plus } from 'lucide-react';
+import { API_TOKEN_SCOPES, ApiToken, ApiTokenScope, AuthSession, FailedAttempt, Lockout } from '../types';
+import { authHeaders } from '../services/authService';
+import { spaceUrl } from '../services/spaceService';
+
+interface SecurityPanelProps {
+  authToken: string;
+  onLogout: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+const formatSeconds = (seconds: number) => seconds >= 60 ? `${Math.ceil(seconds / 60)} 分钟` : `${seconds} 秒`;
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'link:add': '添加链接',
+  'read': '读取全部数据',
+  'admin': '完全管理',
+};
+
+interface FailureReport {
+  attempts: FailedAttempt[];
+  lockouts: Lockout[];
+  globalLockedUntil?: number;
+}
+
+const SecurityPanel: React.FC<SecurityPanelProps> = ({ authToken, onLogout }) => {
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+        const res = await fetch(spaceUrl('/api/auth/sessions'), { headers: authHeaders(authToken) });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data = await res.json();
+        setSessions(data.sessions || []);
+    } catch (e) {
+        setError('加载登录设备失败');
+    } finally {
+        setIsLoading(false);
+    }
+  };
+
+  const [failures, setFailures] = useState<FailureReport>({ attempts: [], lockouts: [] });
+  const [isLoadingFailures, setIsLoadingFailures] = useState(false);
+
+  const loadFailures = async () => {
+    setIsLoadingFailures(true);
+    try {
+        const res = await fetch(spaceUrl('/api/auth/failures'), { headers: authHeaders(authToken) });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        setFailures(await res.json());
+    } catch (e) {
+        setError('加载失败记录失败');
+    } finally {
+        setIsLoadingFailures(false);
+    }
+  };
+
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [tokenName, setTokenName] = useState('');
+  const [tokenScopes, setTokenScopes] = useState<ApiTokenScope[]>(['link:add']);
+  const [createdToken, setCreatedToken] = useState<{ name: string; token: string } | null>(null);
+  const [isCreatingToken, setIsCreatingToken] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const loadApiTokens = async () => {
+    try {
+        const res = await fetch(spaceUrl('/api/auth/tokens'), { headers: authHeaders(authToken) });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        setApiTokens((await res.json()).tokens || []);
+    } catch (e) {
+        setError('加载 API 令牌失败');
+    }
+  };
+
+  useEffect(() => {
+    if (authToken) {
+        loadSessions();
+        loadFailures();
+        loadApiTokens();
+    }
+  }, [authToken]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setTokenScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreateToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreatingToken(true);
+    try {
+        const res = await fetch(spaceUrl('/api/auth/tokens'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders(authToken) },
+            body: JSON.stringify({ name: tokenName.trim(), scopes: tokenScopes })
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const { token, apiToken } = await res.json();
+        setApiTokens(prev => [...prev, apiToken]);
+        setCreatedToken({ name: apiToken.name, token });
+        setCopied(false);
+        setTokenName('');
+    } catch (e) {
+        alert('创建令牌失败');
+    } finally {
+        setIsCreatingToken(false);
+    }
+  };
+
+  const handleRevokeToken = async (token: ApiToken) => {
+    if (!confirm(`确定吊销令牌 "${token.name}" 吗？使用它的扩展或脚本将立即失效。`)) return;
+    const res = await fetch(spaceUrl(`/api/auth/tokens?id=${encodeURIComponent(token.id)}`), {
+        method: 'DELETE',
+        headers: authHeaders(authToken)
+    });
+    if (res.ok) {
+        setApiTokens(prev => prev.filter(t => t.id !== token.id));
+    } else {
+        alert('吊销失败');
+    }
+  };
+
+  // query: `ip=...` lifts one lockout, `global=1` the global one, empty clears the log
+  const clearFailureState = async (query: string) => {
+    const res = await fetch(spaceUrl(query ? `/api/auth/failures?${query}` : '/api/auth/failures'), {
+        method: 'DELETE',
+        headers: authHeaders(authToken)
+    });
+    if (res.ok) {
+        loadFailures();
+    } else {
+        alert('操作失败');
+    }
+  };
+
+  const handleRevoke = async (session: AuthSession) => {
+    const message = session.current ? '确定注销当前设备吗？' : `确定吊销 "${session.device}" 的登录状态吗？`;
+    if (!confirm(message)) return;
+
+    if (session.current) {
+        onLogout();
+        return;
+    }
+
+    const res = await fetch(spaceUrl(`/api/auth/sessions?id=${encodeURIComponent(session.id)}`), {
+        method: 'DELETE',
+        headers: authHeaders(authToken)
+    });
+    if (res.ok) {
+        setSessions(prev => prev.filter(s => s.id !== session.id));
+    } else {
+        alert('吊销失败');
+    }
+  };
+
+  if (!authToken) {
+    return <div className="text-center py-10 text-slate-400 text-sm">请先登录后再管理安全设置</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+        <section className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h4 className="font-medium text-slate-800 dark:text-slate-200">登录设备</h4>
+                    <p className="text-xs text-slate-500 mt-1">每台设备持有独立的会话令牌，可单独吊销，不会暴露管理密码。</p>
+                </div>
+                <button
+                    onClick={loadSessions}
+                    disabled={isLoading}
+                    className="p-2 text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                    title="刷新"
+                >
+                    {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                </button>
+            </div>
+
+            {error && <div className="text-sm text-red-500">{error}</div>}
+
+            <div className="space-y-2">
+                {sessions.map(session => (
+                    <div key={session.id} className="flex items-center gap-3 p-3 bg-white dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-600">
+                        <div className="w-8 h-8 rounded bg-slate-100 dark:bg-slate-600 flex items-center justify-center text-slate-500">
+                            <Monitor size={16} />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm font-medium dark:text-slate-200 truncate">{session.device}</span>
+                                {session.current && <span className="text-[10px] px-1.5 py-0.5 rounded bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">当前设备</span>}
+                            </div>
+                            <div className="text-xs text-slate-400 truncate">
+                                登录于 {formatTime(session.createdAt)}{session.ip ? ` · ${session.ip}` : ''} · 有效期至 {formatTime(session.expiresAt)}
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => handleRevoke(session)}
+                            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-600 rounded"
+                            title={session.current ? '退出登录' : '吊销'}
+                        >
+                            {session.current ? <LogOut size={14} /> : <Trash2 size={14} />}
+                        </button>
+                    </div>
+                ))}
+                {!isLoading && sessions.length === 0 && !error && (
+                    <div className="text-center py-6 text-slate-400 text-sm">暂无登录设备</div>
+                )}
+            </div>
+        </section>
+
+        <section className="space-y-3">
+            <div>
+                <h4 className="font-medium text-slate-800 dark:text-slate-200">API 令牌</h4>
+                <p className="text-xs text-slate-500 mt-1">供浏览器扩展和脚本使用，按权限范围授权。服务端只保存令牌的哈希，明文仅在创建时显示一次。</p>
+            </div>
+
+            {createdToken && (
+                <div className="p-3 rounded-lg border border-green-200 bg-green-50 dark:border-green-900/50 dark:bg-green-900/20 space-y-2">
+                    <div className="text-xs text-green-700 dark:text-green-400">令牌 "{createdToken.name}" 已创建，请立即复制保存，关闭后将无法再次查看：</div>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 min-w-0 text-xs font-mono p-2 rounded bg-white dark:bg-slate-800 dark:text-slate-200 break-all select-all">{createdToken.token}</code>
+                        <button
+                            onClick={() => { navigator.clipboard.writeText(createdToken.token); setCopied(true); }}
+                            className="p-2 text-slate-400 hover:text-blue-500 hover:bg-white dark:hover:bg-slate-700 rounded"
+                            title="复制"
+                        >
+                            {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                        </button>
+                    </div>
+                    <button onClick={() => setCreatedToken(null)} className="text-xs text-slate-500 hover:text-slate-700">我已保存</button>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {apiTokens.map(token => (
+                    <div key={token.id} className="flex items-center gap-3 p-3 bg-white dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-600">
+                        <div className="w-8 h-8 rounded bg-slate-100 dark:bg-slate-600 flex items-center justify-center text-slate-500">
+                            <KeyRound size={16} />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <span className="text-sm font-medium dark:text-slate-200 truncate">{token.name}</span>
+                                {token.scopes.map(scope => (
+                                    <span key={scope} className={`text-[10px] px-1.5 py-0.5 rounded ${scope === 'admin' ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-600 dark:text-slate-300'}`}>
+                                        {SCOPE_LABELS[scope]}
+                                    </span>
+                                ))}
+                            </div>
+                            <div className="text-xs text-slate-400 truncate">
+                                创建于 {formatTime(token.createdAt)} · {token.lastUsedAt ? `最近使用 ${formatTime(token.lastUsedAt)}` : '从未使用'}
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => handleRevokeToken(token)}
+                            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-600 rounded"
+                            title="吊销"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                ))}
+                {apiTokens.length === 0 && (
+                    <div className="text-center py-4 text-slate-400 text-sm">暂无 API 令牌</div>
+                )}
+            </div>
+
+            <form onSubmit={handleCreateToken} className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/30">
+                <input
+                    value={tokenName}
+                    onChange={e => setTokenName(e.target.value)}
+                    placeholder="令牌名称，如 备份脚本"
+                    className="flex-1 min-w-[140px] p-2 rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    required
+                />
+                {API_TOKEN_SCOPES.map(scope => (
+                    <label key={scope} className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={tokenScopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                        {SCOPE_LABELS[scope]}
+                    </label>
+                ))}
+                <button
+                    type="submit"
+                    disabled={isCreatingToken || !tokenName.trim() || tokenScopes.length === 0}
+                    className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors flex items-center gap-1 disabled:opacity-50"
+                >
+                    {isCreatingToken ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />} 创建
+                </button>
+            </form>
+        </section>
+
+        <section className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h4 className="font-medium text-slate-800 dark:text-slate-200">失败的登录尝试</h4>
+                    <p className="text-xs text-slate-500 mt-1">同一 IP 连续输错密码后会被暂时锁定，等待时间逐次加倍；短时间内大量失败会暂停所有密码校验。</p>
+                </div>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={loadFailures}
+                        disabled={isLoadingFailures}
+                        className="p-2 text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                        title="刷新"
+                    >
+                        {isLoadingFailures ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                    </button>
+                    <button
+                        onClick={() => confirm('确定清空失败记录吗？') && clearFailureState('')}
+                        disabled={failures.attempts.length === 0}
+                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                        title="清空记录"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {(failures.globalLockedUntil || failures.lockouts.length > 0) && (
+                <div className="space-y-2">
+                    {failures.globalLockedUntil && (
+                        <div className="flex items-center gap-3 p-3 rounded-lg border border-red-200 bg-red-50 dark:border-red-900/50 dark:bg-red-900/20">
+                            <ShieldAlert size={16} className="text-red-500 shrink-0" />
+                            <div className="flex-1 text-xs text-red-600 dark:text-red-400">
+                                失败次数过多，所有密码校验已暂停至 {formatTime(failures.globalLockedUntil)}
+                            </div>
+                            <button onClick={() => clearFailureState('global=1')} className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-100 dark:hover:bg-red-900/40 rounded flex items-center gap-1">
+                                <Unlock size={12} /> 解除
+                            </button>
+                        </div>
+                    )}
+                    {failures.lockouts.map(lockout => (
+                        <div key={lockout.ip} className="flex items-center gap-3 p-3 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-900/20">
+                            <ShieldAlert size={16} className="text-amber-500 shrink-0" />
+                            <div className="flex-1 min-w-0 text-xs text-amber-700 dark:text-amber-400 truncate">
+                                <span className="font-mono">{lockout.ip}</span> · 连续失败 {lockout.failures} 次 · 锁定至 {formatTime(lockout.lockedUntil)}
+                            </div>
+                            <button onClick={() => clearFailureState(`ip=${encodeURIComponent(lockout.ip)}`)} className="px-2 py-1 text-xs font-medium text-amber-700 hover:bg-amber-100 dark:text-amber-400 dark:hover:bg-amber-900/40 rounded flex items-center gap-1">
+                                <Unlock size={12} /> 解除
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+                {failures.attempts.map((attempt, index) => (
+                    <div key={`${attempt.at}-${index}`} className="flex items-center gap-3 px-3 py-2 text-xs bg-white dark:bg-slate-700/50 rounded border border-slate-200 dark:border-slate-600">
+                        <span className="text-slate-400 shrink-0">{formatTime(attempt.at)}</span>
+                        <span className="font-mono dark:text-slate-300 shrink-0">{attempt.ip}</span>
+                        <span className="text-slate-500 shrink-0">{attempt.scope === 'admin' ? '管理密码' : `分类 "${attempt.target || ''}"`}</span>
+                        <span className="flex-1 min-w-0 text-slate-400 truncate" title={attempt.userAgent}>{attempt.userAgent}</span>
+                        {attempt.lockedFor && <span className="text-amber-600 shrink-0">锁定 {formatSeconds(attempt.lockedFor)}</span>}
+                    </div>
+                ))}
+                {!isLoadingFailures && failures.attempts.length === 0 && (
+                    <div className="text-center py-6 text-slate-400 text-sm">暂无失败记录</div>
+                )}
+            </div>
+        </section>
+    </div>
+  );
+};
+
+export default SecurityPanel;
@@ -1,8 +1,15 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { X, Save, Bot, Key, Globe, Sparkles, PauseCircle, Wrench, Box, Copy, Check, List, GripVertical, Filter, LayoutTemplate, RefreshCw, Info, Download, Sidebar, Keyboard, MousePointerClick, AlertTriangle, Package, Zap, Menu } from 'lucide-react';
-import { AIConfig, LinkItem, Category, SiteSettings } from '../types';
+import { X, Save, Bot, Key, Globe, Sparkles, PauseCircle, Wrench, Box, Copy, Check, List, GripVertical, Filter, LayoutTemplate, RefreshCw, Info, Download, Sidebar, Keyboard, MousePointerClick, AlertTriangle, Package, Zap, Menu, Shield, KeyRound, Loader2, Layers, History } from 'lucide-react';
+import { AIConfig, LinkItem, LinkHealth, Category, SiteSettings, SpaceInfo } from '../types';
 import { generateLinkDescription } from '../services/geminiService';
+import { authHeaders } from '../services/authService';
+import { currentSpace, isDefaultSpace, spaceUrl } from '../services/spaceService';
+import { linkIcon } from '../services/faviconService';
+import SecurityPanel from './SecurityPanel';
+import SpacesPanel from './SpacesPanel';
+import AuditPanel from './AuditPanel';
+import LinkHealthPanel from './LinkHealthPanel';
 import JSZip from 'jszip';
 
 interface SettingsModalProps {
@@ -13,7 +20,11 @@ interface SettingsModalProps {
   onSave: (config: AIConfig, siteSettings: SiteSettings) => void;
   links: LinkItem[];
   categories: Category[];
-  onUpdateLinks: (links: LinkItem[]) => void;
+  onUpdateLinks: (links: LinkItem[], categories?: Category[]) => void;
+  onLinksChecked: (results: Record<string, LinkHealth>) => void;
+  authToken: string;
+  onLogout: () => void;
+  onSpacesChange: (spaces: SpaceInfo[]) => void;
 }
 
 // 辅助函数：生成随机 HSL 颜色
@@ -52,9 +63,9 @@ const generateSvgIcon = (text: string, color1: string, color2: string) => {
 };
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
-    isOpen, onClose, config, siteSettings, onSave, links, categories, onUpdateLinks 
+    isOpen, onClose, config, siteSettings, onSave, links, categories, onUpdateLinks, onLinksChecked, authToken, onLogout, onSpacesChange 
 }) => {
-  const [activeTab, setActiveTab] = useState<'site' | 'ai' | 'tools' | 'links'>('site');
+  const [activeTab, setActiveTab] = useState<'site' | 'ai' | 'tools' | 'links' | 'security' | 'activity' | 'spaces'>('site');
   const [localConfig, setLocalConfig] = useState<AIConfig>(config);
   
   const [localSiteSettings, setLocalSiteSettings] = useState<SiteSettings>(() => ({
@@ -71,7 +82,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   const shouldStopRef = useRef(false);
 
   // Tools State
-  const [password, setPassword] = useState('');
+  const [extToken, setExtToken] = useState('');
+  const [isCreatingToken, setIsCreatingToken] = useState(false);
   const [domain, setDomain] = useState('');
   const [browserType, setBrowserType] = useState<'chrome' | 'firefox'>('chrome');
   const [isZipping, setIsZipping] = useState(false);
@@ -117,8 +129,6 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       setProgress({ current: 0, total: 0 });
       shouldStopRef.current = false;
       setDomain(window.location.origin);
-      const storedToken = localStorage.getItem('cloudnav_auth_token');
-      if (storedToken) setPassword(storedToken);
       setDraggedId(null);
       setFilterCategory('all');
     }
@@ -197,6 +207,29 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       URL.revokeObjectURL(url);
   };
 
+  // The extension only gets to add links, so a leaked package cannot read private data or overwrite anything
+  const handleCreateExtToken = async () => {
+      if (!authToken) {
+          alert("请先登录");
+          return;
+      }
+      setIsCreatingToken(true);
+      try {
+          const res = await fetch(spaceUrl('/api/auth/tokens'), {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', ...authHeaders(authToken) },
+              body: JSON.stringify({ name: `浏览器扩展 (${browserType === 'chrome' ? 'Chrome/Edge' : 'Firefox'})`, scopes: ['link:add'] })
+          });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          const data = await res.json();
+          setExtToken(data.token);
+      } catch (e) {
+          alert("生成令牌失败");
+      } finally {
+          setIsCreatingToken(false);
+      }
+  };
+
   const handleDragStart = (e: React.DragEvent, id: string) => {
       setDraggedId(id);
       e.dataTransfer.effectAllowed = "move";
@@ -276,8 +309,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
 // 内置配置
 const CONFIG = {
   apiBase: "${domain}",
-  password: "${password}"
+  token: "${extToken}",
+  space: "${isDefaultSpace() ? '' : currentSpace()}"
 };
+// 非默认空间的请求都需要带上 ?space=
+const SPACE_QUERY = CONFIG.space ? '?space=' + encodeURIComponent(CONFIG.space) : '';
 
 // 缓存数据
 let linkCache = [];
@@ -417,15 +453,13 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
         const title = tab.title;
         const url = info.linkUrl || tab.url;
         
-        // 简单判重 (仅用于通知提示，不阻止保存)
+        // 判重：已存在的链接不再重复保存。扩展令牌只有 link:add 权限，不能移动已有链接，请在网页端调整分类
         const cleanUrl = url.replace(/\\/$/, '').toLowerCase();
-        const exists = linkCache.some(l => l.url.replace(/\\/$/, '').toLowerCase() === cleanUrl);
+        const existing = linkCache.find(l => l.url && l.url.replace(/\\/$/, '').toLowerCase() === cleanUrl);
         
-        if (exists) {
-            // 如果已存在，再次保存通常意味着用户想更新或者不介意重复，
-            // 但为了防止误操作，这里可以简单弹个确认，或者直接保存。
-            // 由于 Context Menu 无法直接弹 confirm (除非注入脚本)，我们这里直接保存但提示已存在。
-            // 用户已经看到 "⚠️ 已存在" 的标题了，点击说明确实想存。
+        if (existing) {
+            notifyExisting(existing, catId);
+            return;
         }
 
         saveLink(title, url, catId);
@@ -434,24 +468,25 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
 
 // 通用保存逻辑
 async function saveLink(title, url, categoryId, icon = '') {
-    if (!CONFIG.password) {
-        notify('保存失败', '未配置密码，请先在侧边栏登录。');
+    if (!CONFIG.token) {
+        notify('保存失败', '未配置访问令牌，请在 CloudNav 设置中重新生成扩展。');
         return;
     }
 
     if (!icon) {
         try {
             const u = new URL(url);
-            icon = \`https://t2.gstatic.com/faviconV2?client=SOCIAL&type=FAVICON&fallback_opts=TYPE,SIZE,URL&url=\${encodeURIComponent(u.origin)}&size=128\`;
+            // CloudNav 自己的图标代理，使用相对地址，网页端按站点域名解析
+            icon = \`/api/favicon?url=\${encodeURIComponent(u.origin)}\`;
         } catch(e){}
     }
 
     try {
-        const res = await fetch(\`\${CONFIG.apiBase}/api/link\`, {
+        const res = await fetch(\`\${CONFIG.apiBase}/api/link\${SPACE_QUERY}\`, {
             method: 'POST',
             headers: { 
                 'Content-Type': 'application/json',
-                'x-auth-password': CONFIG.password
+                'Authorization': 'Bearer ' + CONFIG.token
             },
             body: JSON.stringify({
                 title: title || '未命名',
@@ -464,10 +499,16 @@ async function saveLink(title, url, categoryId, icon = '') {
         if (res.ok) {
             notify('保存成功', \`已保存到 CloudNav\`);
             chrome.runtime.sendMessage({ type: 'refresh' }).catch(() => {});
-            // 乐观更新缓存
-            const newLink = { id: Date.now().toString(), title, url, categoryId, icon };
-            linkCache.unshift(newLink);
+            // 用服务端返回的链接更新缓存，用于之后的判重
+            const { link } = await res.json();
+            linkCache.unshift(link);
             updateMenuTitle(url); // 立即更新右键菜单状态
+        } else if (res.status === 409) {
+            // 本地缓存过期：服务端已有该链接（令牌无权读取时服务端不返回已有的链接）
+            const { link } = await res.json();
+            linkCache.unshift(link || { url });
+            updateMenuTitle(url);
+            notifyExisting(link, categoryId);
         } else {
             notify('保存失败', \`服务器错误: \${res.status}\`);
         }
@@ -476,6 +517,14 @@ async function saveLink(title, url, categoryId, icon = '') {
     }
 }
 
+function notifyExisting(link, categoryId) {
+    if (link && link.categoryId === categoryId) {
+        notify('已存在', '该链接已在所选分类中');
+    } else {
+        notify('已存在', '该链接已在 CloudNav 中，如需换到其他分类请在网页端修改');
+    }
+}
+
 function notify(title, message) {
     chrome.notifications.create({
         type: 'basic',
@@ -564,8 +613,11 @@ function notify(title, message) {
 
   const extSidebarJs = `const CONFIG = {
   apiBase: "${domain}",
-  password: "${password}"
+  token: "${extToken}",
+  space: "${isDefaultSpace() ? '' : currentSpace()}"
 };
+// 非默认空间的请求都需要带上 ?space=
+const SPACE_QUERY = CONFIG.space ? '?space=' + encodeURIComponent(CONFIG.space) : '';
 const CACHE_KEY = 'cloudnav_data';
 
 // --- 核心改动：连接与自关闭逻辑 (参考 115) ---
@@ -706,8 +758,8 @@ document.addEventListener('DOMContentLoaded', async () => {
             refreshBtn.classList.add('rotating');
             container.innerHTML = '<div class="loading">同步数据中...</div>';
             
-            const res = await fetch(\`\${CONFIG.apiBase}/api/storage\`, {
-                headers: { 'x-auth-password': CONFIG.password }
+            const res = await fetch(\`\${CONFIG.apiBase}/api/storage\${SPACE_QUERY}\`, {
+                headers: { 'Authorization': 'Bearer ' + CONFIG.token }
             });
             
             if (!res.ok) throw new Error("Sync failed");
@@ -866,6 +918,9 @@ document.addEventListener('DOMContentLoaded', async () => {
     { id: 'ai', label: 'AI 设置', icon: Bot },
     { id: 'links', label: '链接管理', icon: List },
     { id: 'tools', label: '扩展工具', icon: Wrench },
+    { id: 'security', label: '安全', icon: Shield },
+    { id: 'activity', label: '操作记录', icon: History },
+    { id: 'spaces', label: '空间', icon: Layers },
   ];
 
   return (
@@ -1048,6 +1103,13 @@ document.addEventListener('DOMContentLoaded', async () => {
                 {/* 3. Link Manager */}
                 {activeTab === 'links' && (
                     <div className="space-y-4 animate-in fade-in duration-300 flex flex-col h-full">
+                        <LinkHealthPanel
+                            authToken={authToken}
+                            links={links}
+                            categories={categories}
+                            onUpdateLinks={onUpdateLinks}
+                            onLinksChecked={onLinksChecked}
+                        />
                         <div className="flex items-center gap-2 mb-2">
                             <Filter size={16} className="text-slate-400" />
                             <select 
@@ -1080,7 +1142,7 @@ document.addEventListener('DOMContentLoaded', async () => {
                                             <GripVertical size={16} />
                                         </div>
                                         <div className="w-6 h-6 rounded bg-slate-100 dark:bg-slate-600 flex items-center justify-center text-xs overflow-hidden">
-                                            {link.icon ? <img src={link.icon} className="w-full h-full object-cover"/> : link.title.charAt(0)}
+                                            {linkIcon(link) ? <img src={linkIcon(link)} className="w-full h-full object-cover"/> : link.title.charAt(0)}
                                         </div>
                                         <div className="flex-1 min-w-0">
                                             <div className="text-sm font-medium dark:text-slate-200 truncate">{link.title}</div>
@@ -1104,7 +1166,7 @@ document.addEventListener('DOMContentLoaded', async () => {
                         <div className="space-y-3">
                             <h4 className="font-medium text-slate-800 dark:text-slate-200 flex items-center gap-2">
                                 <span className="flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 text-blue-600 text-xs font-bold">1</span>
-                                输入访问密码
+                                生成访问令牌
                             </h4>
                             <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
                                 <div className="space-y-3">
@@ -1115,20 +1177,27 @@ document.addEventListener('DOMContentLoaded', async () => {
                                         </code>
                                      </div>
                                      <div>
-                                        <label className="text-xs text-slate-500 mb-1 block">访问密码 (Password)</label>
+                                        <label className="text-xs text-slate-500 mb-1 block">访问令牌 (Token)</label>
                                         <div className="flex gap-2">
                                             <input 
                                                 type="text" 
-                                                value={password} 
+                                                value={extToken} 
                                                 readOnly 
                                                 className="flex-1 p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded text-sm outline-none font-mono"
-                                                placeholder="未登录 / 未设置"
+                                                placeholder={authToken ? "点击右侧按钮生成" : "请先登录"}
                                             />
-                                             <button onClick={() => handleCopy(password, 'pwd')} className="px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 hover:border-blue-500 rounded text-slate-600 dark:text-slate-400 transition-colors">
-                                                {copiedStates['pwd'] ? <Check size={16}/> : <Copy size={16}/>}
+                                            <button 
+                                                onClick={handleCreateExtToken}
+                                                disabled={isCreatingToken || !authToken}
+                                                className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-sm flex items-center gap-1 whitespace-nowrap transition-colors"
+                                            >
+                                                {isCreatingToken ? <Loader2 size={14} className="animate-spin"/> : <KeyRound size={14}/>} 生成
+                                            </button>
+                                             <button onClick={() => handleCopy(extToken, 'token')} className="px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 hover:border-blue-500 rounded text-slate-600 dark:text-slate-400 transition-colors">
+                                                {copiedStates['token'] ? <Check size={16}/> : <Copy size={16}/>}
                                             </button>
                                         </div>
-                                        <p className="text-[10px] text-slate-400 mt-1">此密码对应您部署时设置的 PASSWORD 环境变量。</p>
+                                        <p className="text-[10px] text-slate-400 mt-1">扩展使用仅能添加链接的 API 令牌，不含管理密码，可在“安全”页随时吊销。</p>
                                      </div>
                                 </div>
                             </div>
@@ -1247,6 +1316,19 @@ document.addEventListener('DOMContentLoaded', async () => {
                     </div>
                 )}
 
+                {/* 5. Security */}
+                {activeTab === 'security' && (
+                    <SecurityPanel authToken={authToken} onLogout={onLogout} />
+                )}
+
+                {activeTab === 'activity' && (
+                    <AuditPanel authToken={authToken} />
+                )}
+
+                {activeTab === 'spaces' && (
+                    <SpacesPanel authToken={authToken} onSpacesChange={onSpacesChange} />
+                )}
+
             </div>
 
             <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end bg-slate-50 dark:bg-slate-800/50 shrink-0">
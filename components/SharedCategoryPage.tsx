@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Link2Off, Clock } from 'lucide-react';
+import { SharedCategory } from '../types';
+import { spaceUrl } from '../services/spaceService';
+import { linkIcon } from '../services/faviconService';
+import Icon from './Icon';
+
+interface SharedCategoryPageProps {
+  token: string;
+}
+
+// Read-only view behind a share URL: no login, no editing, only this category's links
+const SharedCategoryPage: React.FC<SharedCategoryPageProps> = ({ token }) => {
+  const [shared, setShared] = useState<SharedCategory | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+
+  useEffect(() => {
+    if (localStorage.getItem('theme') === 'dark' || (!('theme' in localStorage) && window.matchMedia('(prefers-color-scheme: dark)').matches)) {
+      document.documentElement.classList.add('dark');
+    }
+
+    const load = async () => {
+        try {
+            const res = await fetch(spaceUrl(`/api/shares/${encodeURIComponent(token)}`));
+            if (res.status === 404) {
+                setStatus('missing');
+                return;
+            }
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            const data: SharedCategory = await res.json();
+            setShared(data);
+            setStatus('ready');
+            document.title = `${data.category.name} - ${data.siteTitle || 'CloudNav'}`;
+        } catch (e) {
+            setStatus('error');
+        }
+    };
+    load();
+  }, [token]);
+
+  if (status === 'loading') {
+    return <div className="flex h-screen items-center justify-center text-slate-400"><Loader2 className="animate-spin" /></div>;
+  }
+
+  if (status !== 'ready' || !shared) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-3 text-slate-500 dark:text-slate-400">
+        <Link2Off size={40} className="text-slate-300 dark:text-slate-600" />
+        <p>{status === 'missing' ? '分享链接不存在、已过期或已被吊销' : '加载失败，请稍后重试'}</p>
+      </div>
+    );
+  }
+
+  const { category, links } = shared;
+  const isEmoji = category.icon && category.icon.length <= 4 && !/^[a-zA-Z]+$/.test(category.icon);
+
+  return (
+    <div className="min-h-screen text-slate-900 dark:text-slate-50">
+      <div className="max-w-5xl mx-auto p-4 lg:p-8 space-y-6">
+        <header className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-slate-100 dark:bg-slate-800 flex items-center justify-center text-blue-600 dark:text-blue-400">
+            {isEmoji ? <span className="text-xl leading-none">{category.icon}</span> : <Icon name={category.icon} size={20} />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold truncate">{category.name}</h1>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              来自 {shared.siteTitle || 'CloudNav'} 的只读分享 · {links.length} 个链接
+            </p>
+          </div>
+          {shared.expiresAt && (
+            <span className="flex items-center gap-1 text-xs text-slate-400 shrink-0">
+              <Clock size={12} /> 有效期至 {new Date(shared.expiresAt).toLocaleString()}
+            </span>
+          )}
+        </header>
+
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+          {links.map(link => (
+            <a
+              key={link.id}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="group flex flex-col p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-100 dark:border-slate-700/50 shadow-sm hover:shadow-lg hover:border-blue-200 dark:hover:border-slate-600 hover:-translate-y-0.5 transition-all duration-200"
+              title={link.description || link.url}
+            >
+              <div className="flex items-center gap-3 mb-1.5">
+                <div className="w-8 h-8 text-sm rounded-lg bg-slate-50 dark:bg-slate-700 text-blue-600 dark:text-blue-400 flex items-center justify-center font-bold uppercase shrink-0 overflow-hidden">
+                  {linkIcon(link) ? <img src={linkIcon(link)} alt="" className="w-5 h-5 object-contain" /> : link.title.charAt(0)}
+                </div>
+                <h3 className="font-medium text-sm text-slate-800 dark:text-slate-200 truncate flex-1 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                  {link.title}
+                </h3>
+              </div>
+              <div className="text-xs text-slate-500 dark:text-slate-400 line-clamp-1 h-4 overflow-hidden">
+                {link.description || link.url}
+              </div>
+            </a>
+          ))}
+        </div>
+        {links.length === 0 && <div className="text-center py-10 text-slate-400 text-sm">该分类暂无链接</div>}
+      </div>
+    </div>
+  );
+};
+
+export default SharedCategoryPage;
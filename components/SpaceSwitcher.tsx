@@ -0,0 +1,33 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { SpaceInfo } from '../types';
+import { DEFAULT_SPACE, currentSpace, spacePath } from '../services/spaceService';
+
+interface SpaceSwitcherProps {
+  spaces: SpaceInfo[];
+}
+
+// Each space is its own page: switching reloads so caches and sessions never mix
+const SpaceSwitcher: React.FC<SpaceSwitcherProps> = ({ spaces }) => {
+  if (spaces.length === 0) return null;
+  const active = currentSpace();
+
+  return (
+    <div className="px-4 pt-4 shrink-0">
+      <label className="flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300">
+        <Layers size={14} className="text-slate-400 shrink-0" />
+        <select
+          value={active}
+          onChange={e => { window.location.href = spacePath(e.target.value); }}
+          className="flex-1 min-w-0 bg-transparent text-sm outline-none cursor-pointer dark:bg-slate-800"
+          title="切换空间"
+        >
+          <option value={DEFAULT_SPACE}>默认空间</option>
+          {spaces.map(space => <option key={space.id} value={space.id}>{space.name}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default SpaceSwitcher;
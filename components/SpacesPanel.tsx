@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, RefreshCw, Loader2, KeyRound, ExternalLink, Layers } from 'lucide-react';
+import { SpaceInfo } from '../types';
+import { authHeaders } from '../services/authService';
+import { isDefaultSpace, spacePath } from '../services/spaceService';
+
+interface SpacesPanelProps {
+  authToken: string;
+  onSpacesChange: (spaces: SpaceInfo[]) => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+const SpacesPanel: React.FC<SpacesPanelProps> = ({ authToken, onSpacesChange }) => {
+  const [spaces, setSpaces] = useState<SpaceInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [form, setForm] = useState({ id: '', name: '', password: '' });
+  const [isCreating, setIsCreating] = useState(false);
+
+  const updateSpaces = (next: SpaceInfo[]) => {
+    setSpaces(next);
+    onSpacesChange(next);
+  };
+
+  const loadSpaces = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+        const res = await fetch('/api/spaces');
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data = await res.json();
+        updateSpaces(data.spaces || []);
+    } catch (e) {
+        setError('加载空间列表失败');
+    } finally {
+        setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authToken && isDefaultSpace()) loadSpaces();
+  }, [authToken]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+        const res = await fetch('/api/spaces', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders(authToken) },
+            body: JSON.stringify(form)
+        });
+        if (res.status === 409) {
+            alert('该空间 ID 已存在');
+            return;
+        }
+        if (!res.ok) {
+            const { fields } = await res.json().catch(() => ({}));
+            alert(`创建失败${fields?.length ? `：${fields.map((f: { field: string; message: string }) => `${f.field} ${f.message}`).join('；')}` : ''}`);
+            return;
+        }
+        const space: SpaceInfo = await res.json();
+        updateSpaces([...spaces, space]);
+        setForm({ id: '', name: '', password: '' });
+    } finally {
+        setIsCreating(false);
+    }
+  };
+
+  const handleResetPassword = async (space: SpaceInfo) => {
+    const password = prompt(`为空间 "${space.name}" 设置新密码（该空间已登录的设备将全部退出）：`);
+    if (!password) return;
+
+    const res = await fetch(`/api/spaces/${encodeURIComponent(space.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(authToken) },
+        body: JSON.stringify({ password })
+    });
+    alert(res.ok ? '密码已重置' : '重置失败');
+  };
+
+  const handleDelete = async (space: SpaceInfo) => {
+    if (!confirm(`确定删除空间 "${space.name}" 吗？其中的链接、分类和历史版本将被永久删除。`)) return;
+
+    const res = await fetch(`/api/spaces/${encodeURIComponent(space.id)}`, {
+        method: 'DELETE',
+        headers: authHeaders(authToken)
+    });
+    if (res.ok) {
+        updateSpaces(spaces.filter(s => s.id !== space.id));
+    } else {
+        alert('删除失败');
+    }
+  };
+
+  if (!authToken) {
+    return <div className="text-center py-10 text-slate-400 text-sm">请先登录后再管理空间</div>;
+  }
+
+  // Spaces are created and deleted by whoever holds the deployment's PASSWORD
+  if (!isDefaultSpace()) {
+    return <div className="text-center py-10 text-slate-400 text-sm">空间只能在默认空间中由部署管理员管理</div>;
+  }
+
+  const inputClass = "w-full p-2 rounded-lg border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+        <section className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h4 className="font-medium text-slate-800 dark:text-slate-200">空间</h4>
+                    <p className="text-xs text-slate-500 mt-1">每个空间拥有独立的链接、分类、网站设置和管理密码，通过 /s/空间ID 访问。</p>
+                </div>
+                <button
+                    onClick={loadSpaces}
+                    disabled={isLoading}
+                    className="p-2 text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                    title="刷新"
+                >
+                    {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                </button>
+            </div>
+
+            {error && <div className="text-sm text-red-500">{error}</div>}
+
+            <div className="space-y-2">
+                {spaces.map(space => (
+                    <div key={space.id} className="flex items-center gap-3 p-3 bg-white dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-600">
+                        <div className="w-8 h-8 rounded bg-slate-100 dark:bg-slate-600 flex items-center justify-center text-slate-500">
+                            <Layers size={16} />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="text-sm font-medium dark:text-slate-200 truncate">{space.name}</div>
+                            <div className="text-xs text-slate-400 truncate">{spacePath(space.id)} · 创建于 {formatTime(space.createdAt)}</div>
+                        </div>
+                        <a href={spacePath(space.id)} className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-600 rounded" title="打开">
+                            <ExternalLink size={14} />
+                        </a>
+                        <button onClick={() => handleResetPassword(space)} className="p-1.5 text-slate-400 hover:text-amber-500 hover:bg-slate-100 dark:hover:bg-slate-600 rounded" title="重置密码">
+                            <KeyRound size={14} />
+                        </button>
+                        <button onClick={() => handleDelete(space)} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-600 rounded" title="删除">
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                ))}
+                {!isLoading && spaces.length === 0 && !error && (
+                    <div className="text-center py-6 text-slate-400 text-sm">暂无其他空间</div>
+                )}
+            </div>
+        </section>
+
+        <form onSubmit={handleCreate} className="space-y-3 p-4 rounded-lg bg-slate-50 dark:bg-slate-700/30">
+            <h4 className="font-medium text-slate-800 dark:text-slate-200 text-sm">新建空间</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <input
+                    value={form.id}
+                    onChange={e => setForm({ ...form, id: e.target.value.toLowerCase() })}
+                    className={inputClass}
+                    placeholder="ID，如 team"
+                    pattern="[a-z0-9][a-z0-9\-]{0,31}"
+                    title="小写字母、数字或连字符，最多 32 个字符"
+                    required
+                />
+                <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} placeholder="名称，如 团队" required />
+                <input type="password" value={form.password} onChange={e => setForm({ ...form, password: e.target.value })} className={inputClass} placeholder="管理密码" required />
+            </div>
+            <button
+                type="submit"
+                disabled={isCreating}
+                className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+                {isCreating ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />} 创建
+            </button>
+        </form>
+    </div>
+  );
+};
+
+export default SpacesPanel;
@@ -0,0 +1,73 @@
+import type { ApiToken, ApiTokenScope } from '../../types';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { randomToken, timingSafeEqual, toBase64Url } from './crypto';
+
+const TOKENS_KEY = 'api_tokens';
+
+// `cn_<id>_<secret>`: the id finds the record, only a hash of the secret is stored
+const TOKEN_PATTERN = /^cn_([0-9a-f]{16})_([\w-]{32})$/;
+
+// Recording every use would mean a write per request
+const LAST_USED_RESOLUTION_MS = 10 * 60 * 1000;
+
+interface StoredApiToken extends ApiToken {
+  hash: string;
+}
+
+export const isApiToken = (credential: string) => TOKEN_PATTERN.test(credential);
+
+// Secrets are random, so a plain SHA-256 is enough; PBKDF2 is for guessable passwords
+const hashSecret = async (secret: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return toBase64Url(new Uint8Array(digest));
+};
+
+const readTokens = async (env: Env): Promise<StoredApiToken[]> => {
+  const raw = await getStorage(env).get(TOKENS_KEY);
+  return raw ? JSON.parse(raw) : [];
+};
+
+const saveTokens = async (env: Env, tokens: StoredApiToken[]) => {
+  await getStorage(env).put(TOKENS_KEY, JSON.stringify(tokens));
+};
+
+const toApiToken = ({ hash, ...token }: StoredApiToken): ApiToken => token;
+
+export const listApiTokens = async (env: Env): Promise<ApiToken[]> => {
+  return (await readTokens(env)).map(toApiToken);
+};
+
+/**
+ * Returns the plaintext token, which is never stored and cannot be shown again.
+ */
+export const createApiToken = async (env: Env, name: string, scopes: ApiTokenScope[]) => {
+  const id = Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, '0')).join('');
+  const secret = randomToken(24);
+  const record: StoredApiToken = { id, name, scopes, createdAt: Date.now(), hash: await hashSecret(secret) };
+
+  await saveTokens(env, [...(await readTokens(env)), record]);
+  return { token: `cn_${id}_${secret}`, apiToken: toApiToken(record) };
+};
+
+export const revokeApiToken = async (env: Env, id: string): Promise<boolean> => {
+  const tokens = await readTokens(env);
+  const remaining = tokens.filter(t => t.id !== id);
+  await saveTokens(env, remaining);
+  return remaining.length !== tokens.length;
+};
+
+export const verifyApiToken = async (env: Env, credential: string): Promise<ApiToken | null> => {
+  const match = credential.match(TOKEN_PATTERN);
+  if (!match) return null;
+
+  const tokens = await readTokens(env);
+  const token = tokens.find(t => t.id === match[1]);
+  if (!token || !timingSafeEqual(await hashSecret(match[2]), token.hash)) return null;
+
+  const now = Date.now();
+  if (!token.lastUsedAt || now - token.lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    await saveTokens(env, tokens.map(t => t.id === token.id ? { ...t, lastUsedAt: now } : t));
+  }
+  return toApiToken(token);
+};
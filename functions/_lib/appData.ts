@@ -0,0 +1,103 @@
+import type { Category, LinkItem, SiteSettings } from '../../types';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { hashPassword, isPasswordHash } from './password';
+import { recordRevision } from './history';
+
+export const APP_DATA_KEY = 'app_data';
+
+export interface AppData {
+  links: LinkItem[];
+  categories: Category[];
+  settings?: SiteSettings;
+  revision?: number; // Bumped on every write, exposed as the ETag
+  updatedAt?: number;
+}
+
+export const getRevision = (data: AppData): number => data.revision || 0;
+
+export const revisionEtag = (revision: number): string => `"${revision}"`;
+
+/**
+ * Compares an `If-Match` header against the stored revision. `*` matches anything.
+ */
+export const matchesRevision = (ifMatch: string, revision: number): boolean => {
+  return ifMatch.split(',').some(tag => {
+    const value = tag.trim().replace(/^W\//, '');
+    return value === '*' || value === revisionEtag(revision);
+  });
+};
+
+export const readAppData = async (env: Env): Promise<AppData> => {
+  const raw = await getStorage(env).get(APP_DATA_KEY);
+  if (!raw) return { links: [], categories: [] };
+
+  const parsed = JSON.parse(raw);
+  const data: AppData = { ...parsed, links: parsed.links || [], categories: parsed.categories || [] };
+
+  // Older deployments stored category passwords in plaintext: hash them on first load
+  if (data.categories.some(c => c.password && !isPasswordHash(c.password))) {
+    data.categories = await Promise.all(data.categories.map(async c =>
+      c.password && !isPasswordHash(c.password) ? { ...c, password: await hashPassword(c.password) } : c
+    ));
+    // Same content for clients, so the revision is left alone
+    await getStorage(env).put(APP_DATA_KEY, JSON.stringify(data));
+  }
+
+  return data;
+};
+
+/**
+ * Stores `data` as the revision following `previous` and keeps a copy in the history.
+ * Storage has no compare-and-swap, so callers check `If-Match` right before writing.
+ */
+export const writeAppData = async (env: Env, data: AppData, previous: AppData, restoredFrom?: number): Promise<AppData> => {
+  const next = { ...data, revision: getRevision(previous) + 1, updatedAt: Date.now() };
+  await getStorage(env).put(APP_DATA_KEY, JSON.stringify(next));
+  await recordRevision(env, previous, next, restoredFrom);
+  return next;
+};
+
+export const toClientCategory = ({ password, ...cat }: Category): Category => {
+  return password ? { ...cat, locked: true } : cat;
+};
+
+/**
+ * Shapes stored data for the browser: passwords never leave the server,
+ * locked categories are only flagged, and their links are dropped unless
+ * the caller is the admin.
+ */
+export const toClientView = (data: AppData, includeLockedLinks: boolean): AppData => {
+  const lockedIds = new Set(data.categories.filter(c => c.password).map(c => c.id));
+
+  return {
+    ...data,
+    categories: data.categories.map(toClientCategory),
+    links: includeLockedLinks ? data.links : data.links.filter(l => !lockedIds.has(l.categoryId)),
+  };
+};
+
+/**
+ * Clients only send `password` when setting a new one. A category that comes
+ * back with `locked` keeps its stored password; otherwise the lock is removed.
+ */
+export const applyCategoryPasswords = async (incoming: Category[], stored: Category[]): Promise<Category[]> => {
+  const storedById = new Map(stored.map(c => [c.id, c]));
+
+  return Promise.all(incoming.map(async ({ password, locked, ...cat }) => {
+    if (password) return { ...cat, password: await hashPassword(password) };
+    const previous = storedById.get(cat.id)?.password;
+    if (locked && previous) return { ...cat, password: previous };
+    return cat;
+  }));
+};
+
+/**
+ * Categories that come back `locked` with neither a new password nor a stored one, e.g. from a
+ * backup restored on another deployment or space. `applyCategoryPasswords` would unlock them,
+ * publishing their links, so callers refuse the save instead.
+ */
+export const locksWithoutPassword = (incoming: Category[], stored: Category[]): Category[] => {
+  const storedLocked = new Set(stored.filter(c => c.password).map(c => c.id));
+  return incoming.filter(c => c.locked && !c.password && !storedLocked.has(c.id));
+};
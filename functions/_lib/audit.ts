@@ -0,0 +1,110 @@
+import { AUDIT_REASONS, type AuditAction, type AuditActor, type AuditEntry, type AuditReason, type AuditTarget } from '../../types';
+import type { AppData } from './appData';
+import type { AuthContext } from './auth';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { randomToken } from './crypto';
+import { diffAppData } from './history';
+import { listSessions } from './sessions';
+import { listApiTokens } from './apiTokens';
+import { getClientIp } from './rateLimit';
+
+const AUDIT_KEY = 'audit_log';
+const DEFAULT_AUDIT_LIMIT = 500;
+
+// A bulk import can touch thousands of items; the entry keeps the first few and the total
+const MAX_TARGETS = 50;
+
+const getAuditLimit = (env: Env) => Math.max(1, Number(env.AUDIT_LIMIT) || DEFAULT_AUDIT_LIMIT);
+
+export const listAuditEntries = async (env: Env): Promise<AuditEntry[]> => {
+  const raw = await getStorage(env).get(AUDIT_KEY);
+  return raw ? JSON.parse(raw) : [];
+};
+
+const describeTargets = (before: AppData, after: AppData): AuditTarget[] => {
+  const diff = diffAppData(before, after);
+  const targets: AuditTarget[] = [];
+
+  (['added', 'removed'] as const).forEach(change => {
+    diff.links[change].forEach(l => targets.push({ type: 'link', change, id: l.id, label: l.title }));
+    diff.categories[change].forEach(c => targets.push({ type: 'category', change, id: c.id, label: c.name }));
+  });
+  diff.links.updated.forEach(u => targets.push({ type: 'link', change: 'updated', id: u.after.id, label: u.after.title }));
+  diff.categories.updated.forEach(u => targets.push({ type: 'category', change: 'updated', id: u.after.id, label: u.after.name }));
+  if (diff.settings) targets.push({ type: 'settings', change: 'updated' });
+
+  return targets;
+};
+
+// Names are looked up now, so the log still reads well after a device or token is revoked
+const describeActor = async (env: Env, request: Request, auth: AuthContext): Promise<AuditActor> => {
+  let id: string | undefined;
+  let name: string | undefined;
+  if (auth.sessionId) {
+    id = auth.sessionId;
+    name = (await listSessions(env)).find(s => s.id === id)?.device;
+  } else if (auth.tokenId) {
+    id = auth.tokenId;
+    name = (await listApiTokens(env)).find(t => t.id === id)?.name;
+  }
+
+  return {
+    method: auth.method,
+    id,
+    name,
+    ip: getClientIp(request),
+    userAgent: request.headers.get('User-Agent')?.slice(0, 200) || undefined,
+  };
+};
+
+const getReason = (request: Request): AuditReason | undefined => {
+  const reason = request.headers.get('X-Audit-Reason') as AuditReason | null;
+  return reason && AUDIT_REASONS.includes(reason) ? reason : undefined;
+};
+
+const appendEntry = async (env: Env, entry: AuditEntry) => {
+  const log = await listAuditEntries(env);
+  await getStorage(env).put(AUDIT_KEY, JSON.stringify([entry, ...log].slice(0, getAuditLimit(env))));
+};
+
+/**
+ * Appends one entry for a write that went from `before` to `after`, dropping the oldest beyond `AUDIT_LIMIT`.
+ */
+export const recordMutation = async (
+  env: Env,
+  request: Request,
+  auth: AuthContext,
+  action: AuditAction,
+  before: AppData,
+  after: AppData,
+  restoredFrom?: number
+) => {
+  const targets = describeTargets(before, after);
+  const entry: AuditEntry = {
+    id: randomToken(9),
+    at: after.updatedAt || Date.now(),
+    action,
+    revision: after.revision || 0,
+    reason: getReason(request),
+    restoredFrom,
+    targets: targets.slice(0, MAX_TARGETS),
+    targetCount: targets.length,
+    actor: await describeActor(env, request, auth),
+  };
+  await appendEntry(env, entry);
+};
+
+/**
+ * Appends one entry for a change outside the app data, such as an API token or a backup target.
+ */
+export const recordEvent = async (env: Env, request: Request, auth: AuthContext, action: AuditAction, target: AuditTarget) => {
+  await appendEntry(env, {
+    id: randomToken(9),
+    at: Date.now(),
+    action,
+    targets: [target],
+    targetCount: 1,
+    actor: await describeActor(env, request, auth),
+  });
+};
@@ -0,0 +1,83 @@
+import type { ApiTokenScope } from '../../types';
+import { Env } from './env';
+import { isApiToken, verifyApiToken } from './apiTokens';
+import { jsonResponse } from './http';
+import { verifyPassword } from './password';
+import { clearFailures, getClientIp, getRetryAfter, recordFailure, throttledResponse } from './rateLimit';
+import { verifySessionToken } from './sessions';
+
+export interface AuthContext {
+  method: 'password' | 'session' | 'token';
+  sessionId?: string;
+  tokenId?: string;
+  scopes: ApiTokenScope[]; // Passwords and sessions carry `admin`
+}
+
+// Session tokens arrive as `Authorization: Bearer`; `x-auth-password` is kept for older clients
+const getCredential = (request: Request): string | null => {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) return authorization.slice(7).trim();
+  return request.headers.get('x-auth-password');
+};
+
+// Expired or revoked tokens are not password guesses and must not lock their owner out
+const looksLikeToken = (credential: string) => /^[\w-]{20,}\.[\w-]{20,}$/.test(credential) || isApiToken(credential);
+
+export const hasScope = (auth: AuthContext, scope: ApiTokenScope): boolean => {
+  return auth.scopes.includes('admin') || auth.scopes.includes(scope);
+};
+
+export const hasCredential = (request: Request): boolean => !!getCredential(request);
+
+/**
+ * Checks the admin password against `PASSWORD`, which may be plaintext or a `pbkdf2$...` hash.
+ */
+export const verifyAdminPassword = async (password: string, env: Env): Promise<boolean> => {
+  if (!env.PASSWORD || !password) return false;
+  return verifyPassword(password, env.PASSWORD);
+};
+
+/**
+ * Accepts a session token, an API token or the admin password in any credential header.
+ * Wrong passwords count toward the caller's lockout; while locked out, passwords are not checked.
+ */
+export const authenticate = async (request: Request, env: Env): Promise<AuthContext | null> => {
+  const credential = getCredential(request);
+  if (!credential) return null;
+
+  if (isApiToken(credential)) {
+    const token = await verifyApiToken(env, credential);
+    return token ? { method: 'token', tokenId: token.id, scopes: token.scopes } : null;
+  }
+
+  const session = await verifySessionToken(env, credential);
+  if (session) return { method: 'session', sessionId: session.id, scopes: ['admin'] };
+  if (looksLikeToken(credential)) return null;
+
+  if (await getRetryAfter(env, request) > 0) return null;
+  if (await verifyAdminPassword(credential, env)) {
+    await clearFailures(env, getClientIp(request));
+    return { method: 'password', scopes: ['admin'] };
+  }
+  await recordFailure(env, request, 'admin');
+  return null;
+};
+
+/**
+ * Like `authenticate`, but hands back the 401/429 response to return when it fails,
+ * or a 403 when the caller lacks `scope`. Pass `null` to accept any valid credential.
+ */
+export const authorize = async (
+  request: Request,
+  env: Env,
+  headers: Record<string, string> = {},
+  scope: ApiTokenScope | null = 'admin'
+): Promise<AuthContext | Response> => {
+  const auth = await authenticate(request, env);
+  if (auth) {
+    return !scope || hasScope(auth, scope) ? auth : jsonResponse({ error: 'Forbidden', scope }, 403, headers);
+  }
+
+  const retryAfter = hasCredential(request) ? await getRetryAfter(env, request) : 0;
+  return retryAfter > 0 ? throttledResponse(retryAfter, headers) : jsonResponse({ error: 'Unauthorized' }, 401, headers);
+};
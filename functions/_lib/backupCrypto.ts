@@ -0,0 +1,31 @@
+import { ENCRYPTED_BACKUP_FORMAT, type BackupEncryptionKey, type EncryptedBackup } from '../../types';
+
+// Standard base64 (not base64url) to match the files the browser writes
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+/**
+ * Encrypts a backup with a key the browser derived from the backup passphrase. The
+ * header carries that key's KDF parameters, so the file opens with the passphrase
+ * exactly like one encrypted in the browser.
+ */
+export const encryptBackupWithKey = async (payload: unknown, { kdf, key }: BackupEncryptionKey, createdAt: number): Promise<EncryptedBackup> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', fromBase64(key), 'AES-GCM', false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(JSON.stringify(payload)));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    createdAt,
+    kdf,
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(data)),
+  };
+};
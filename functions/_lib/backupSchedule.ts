@@ -0,0 +1,160 @@
+import { BACKUP_FORMAT, BACKUP_VERSION, type BackupEncryptionKey, type BackupEnvelope, type BackupIntervalHours, type BackupRetention, type BackupRunStatus, type ServerWebDavConfig } from '../../types';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { openSecret, sealSecret } from './crypto';
+import { readAppData, toClientView } from './appData';
+import { listSpaces, spaceEnv } from './spaces';
+import { encryptBackupWithKey } from './backupCrypto';
+import { backupToWebDav, DEFAULT_RETENTION, WebDavTarget } from './webdav';
+import type { WebDavConfigInput } from './validation';
+
+const CONFIG_KEY = 'webdav_config';
+const STATUS_KEY = 'webdav_backup_status';
+
+// Schedulers wake up on the hour (Cloudflare cron) or every few minutes (self-hosted);
+// a run that finished a little after the hour is still due at the next one
+const DUE_TOLERANCE_MS = 5 * 60 * 1000;
+
+interface WebDavConfigRecord {
+  url: string;
+  username: string;
+  password: string; // sealSecret()
+  enabled: boolean;
+  intervalHours: BackupIntervalHours;
+  retention?: BackupRetention; // Missing in configs saved before backups were versioned
+  // `key` is sealSecret()'d, which only keeps it from storage readers when AUTH_SECRET is set
+  encryption?: BackupEncryptionKey;
+}
+
+const readConfig = async (env: Env): Promise<WebDavConfigRecord | null> => {
+  const raw = await getStorage(env).get(CONFIG_KEY);
+  return raw ? JSON.parse(raw) : null;
+};
+
+const readStatus = async (env: Env): Promise<BackupRunStatus | undefined> => {
+  const raw = await getStorage(env).get(STATUS_KEY);
+  return raw ? JSON.parse(raw) : undefined;
+};
+
+const nextRunAt = (config: WebDavConfigRecord, lastRun?: BackupRunStatus): number | undefined => {
+  if (!config.enabled || !config.intervalHours) return undefined;
+  return lastRun ? lastRun.at + config.intervalHours * 3600 * 1000 : Date.now();
+};
+
+const getRetention = (config: WebDavConfigRecord | null): BackupRetention => config?.retention || DEFAULT_RETENTION;
+
+/**
+ * The retention policy for uploads to the stored target.
+ */
+export const getWebDavRetention = async (env: Env): Promise<BackupRetention> => getRetention(await readConfig(env));
+
+/**
+ * The stored target as shown to the admin: everything but the password.
+ */
+export const getWebDavConfig = async (env: Env): Promise<ServerWebDavConfig | null> => {
+  const config = await readConfig(env);
+  if (!config) return null;
+  const lastRun = await readStatus(env);
+  const { password, encryption, ...rest } = config;
+  return {
+    ...rest,
+    retention: getRetention(config),
+    hasPassword: !!password,
+    encrypted: !!encryption,
+    canEncrypt: !!env.AUTH_SECRET,
+    lastRun,
+    nextRunAt: nextRunAt(config, lastRun),
+  };
+};
+
+/**
+ * Stores the target. Without a new password (or encryption key) the stored one is kept.
+ */
+export const saveWebDavConfig = async (env: Env, input: WebDavConfigInput): Promise<boolean> => {
+  const previous = await readConfig(env);
+  const password = input.password ? await sealSecret(env, input.password) : previous?.password;
+  if (!password) return false;
+  const encryption = input.encryption === undefined
+    ? previous?.encryption
+    : input.encryption && { kdf: input.encryption.kdf, key: await sealSecret(env, input.encryption.key) };
+
+  const record: WebDavConfigRecord = {
+    url: input.url,
+    username: input.username,
+    password,
+    enabled: input.enabled,
+    intervalHours: input.intervalHours,
+    retention: input.retention || getRetention(previous),
+    ...(encryption ? { encryption } : {}),
+  };
+  await getStorage(env).put(CONFIG_KEY, JSON.stringify(record));
+  return true;
+};
+
+export const deleteWebDavConfig = async (env: Env) => {
+  await getStorage(env).delete(CONFIG_KEY);
+  await getStorage(env).delete(STATUS_KEY);
+};
+
+/**
+ * The stored target with its password decrypted, or null when there is none
+ * (or the password was sealed with another `AUTH_SECRET`).
+ */
+export const getWebDavTarget = async (env: Env): Promise<WebDavTarget | null> => {
+  const config = await readConfig(env);
+  const password = config && await openSecret(env, config.password);
+  return config && password ? { url: config.url, username: config.username, password } : null;
+};
+
+/**
+ * Uploads the stored document to the configured target and records the outcome.
+ */
+export const runWebDavBackup = async (env: Env, trigger: BackupRunStatus['trigger']): Promise<BackupRunStatus> => {
+  let status: BackupRunStatus;
+  try {
+    const config = await readConfig(env);
+    const target = await getWebDavTarget(env);
+    if (!target) throw new Error('WebDAV is not configured, or its password can no longer be decrypted');
+
+    // Same envelope the browser writes; settings and search engines kept in the browser are not known here
+    const data = toClientView(await readAppData(env), true);
+    const backup: BackupEnvelope = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      includesSecrets: false,
+      data: { links: data.links, categories: data.categories, ...(data.settings ? { settings: data.settings } : {}) },
+    };
+    let payload: unknown = backup;
+    if (config?.encryption) {
+      const key = await openSecret(env, config.encryption.key);
+      // Never fall back to a plaintext upload when encryption was asked for
+      if (!key) throw new Error('The backup encryption key can no longer be decrypted; set the backup passphrase again');
+      payload = await encryptBackupWithKey(backup, { kdf: config.encryption.kdf, key }, backup.createdAt);
+    }
+    const { filename } = await backupToWebDav(target, payload, getRetention(config));
+    status = { at: Date.now(), ok: true, trigger, filename, linkCount: data.links.length, categoryCount: data.categories.length };
+  } catch (err: any) {
+    status = { at: Date.now(), ok: false, trigger, error: err?.message || 'Backup failed' };
+  }
+  await getStorage(env).put(STATUS_KEY, JSON.stringify(status));
+  return status;
+};
+
+/**
+ * Runs the backup of every space whose schedule is due. Called by the Cloudflare
+ * cron worker and by the self-hosted server's timer.
+ */
+export const runDueBackups = async (env: Env, now: number = Date.now()) => {
+  const envs = [env, ...(await listSpaces(env)).map(space => spaceEnv(env, space))];
+
+  for (const target of envs) {
+    const config = await readConfig(target);
+    if (!config) continue;
+    const due = nextRunAt(config, await readStatus(target));
+    if (due === undefined || due > now + DUE_TOLERANCE_MS) continue;
+
+    const status = await runWebDavBackup(target, 'schedule');
+    if (!status.ok) console.error(`Scheduled WebDAV backup failed (${target.SPACE || 'default'}): ${status.error}`);
+  }
+};
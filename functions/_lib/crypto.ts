@@ -0,0 +1,128 @@
+import { Env } from './env';
+import { getStorage } from './storage';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const SECRET_KEY = 'auth_secret';
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (input: string): Uint8Array => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const randomToken = (byteLength: number = 32): string => {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+};
+
+/**
+ * Compares two strings without short-circuiting on the first mismatch.
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  const length = Math.max(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+// Prefer an explicit secret; otherwise generate one on first use and keep it in storage
+const getSigningSecret = async (env: Env): Promise<string> => {
+  if (env.AUTH_SECRET) return env.AUTH_SECRET;
+  let secret = await getStorage(env).get(SECRET_KEY);
+  if (!secret) {
+    secret = randomToken();
+    await getStorage(env).put(SECRET_KEY, secret);
+  }
+  return secret;
+};
+
+const importHmacKey = async (env: Env) => {
+  const secret = await getSigningSecret(env);
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+export interface TokenPayload {
+  typ: string;
+  exp: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Produces `<payload>.<signature>`, both base64url encoded.
+ */
+export const signToken = async (env: Env, payload: TokenPayload): Promise<string> => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await importHmacKey(env);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Returns the payload when the signature is valid, the type matches and it has not expired.
+ */
+export const verifyToken = async <T extends TokenPayload>(env: Env, token: string | null, typ: string): Promise<T | null> => {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const key = await importHmacKey(env);
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(body));
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as T;
+    if (payload.typ !== typ || typeof payload.exp !== 'number' || payload.exp < Date.now()) return null;
+    return payload;
+  } catch (e) {
+    return null;
+  }
+};
+
+// AES-GCM key for secrets the server must read back later (e.g. a WebDAV password), derived
+// from the signing secret. Only with AUTH_SECRET set does the key live outside storage.
+const importSecretBoxKey = async (env: Env) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(await getSigningSecret(env)), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode('cloudnav-secret-box') },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts `plaintext` as `<iv>.<ciphertext>`, both base64url encoded.
+ */
+export const sealSecret = async (env: Env, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await importSecretBoxKey(env);
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(sealed))}`;
+};
+
+/**
+ * Reverses `sealSecret`. Returns null when the value was sealed with another secret.
+ */
+export const openSecret = async (env: Env, sealed: string): Promise<string | null> => {
+  const [iv, data] = sealed.split('.');
+  if (!iv || !data) return null;
+  try {
+    const key = await importSecretBoxKey(env);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(iv) }, key, fromBase64Url(data));
+    return decoder.decode(plaintext);
+  } catch (e) {
+    return null;
+  }
+};
@@ -0,0 +1,22 @@
+import type { Storage } from './storage/types';
+import type { KVNamespaceLike } from './storage/kv';
+import type { D1DatabaseLike } from './storage/d1';
+
+// Cloudflare Pages bindings shared by every function under /api
+export interface Env {
+  // Storage: one of these must be set, see getStorage()
+  CLOUDNAV_KV?: KVNamespaceLike;
+  CLOUDNAV_D1?: D1DatabaseLike;
+  STORAGE?: Storage; // Injected by the self-hosted server
+  PASSWORD: string;
+  // Optional: secret used to sign grants. Falls back to a random secret kept in storage.
+  AUTH_SECRET?: string;
+  // Set by resolveSpace() when the request targets a space other than the default one
+  SPACE?: string;
+  // Optional: how many revisions of app_data to keep for rollback (default 20)
+  HISTORY_LIMIT?: string;
+  // Optional: how many entries the audit log keeps (default 500)
+  AUDIT_LIMIT?: string;
+  // Optional: failed password checks across all IPs within 5 minutes that pause every login (default 500, 0 turns it off)
+  GLOBAL_LOCK_FAILURES?: string;
+}
@@ -0,0 +1,146 @@
+import { Env } from './env';
+import { getStorage } from './storage';
+import { readAppData, toClientView } from './appData';
+import { fromBase64Url, toBase64Url } from './crypto';
+import { fetchPageMetadata } from './metadata';
+import { fetchPublic, readLimited, toPublicUrl } from './outbound';
+
+const FAVICON_PREFIX = 'favicon:';
+
+// Found icons are kept for a week; a site without one is retried after a day
+const ICON_TTL = 7 * 24 * 60 * 60;
+const MISSING_TTL = 24 * 60 * 60;
+
+// Misses stay in memory only, so lookups for icon-less sites cost no storage writes
+const MAX_REMEMBERED_MISSES = 500;
+const misses = new Map<string, number>(); // host -> expiry (ms)
+
+const MAX_ICON_BYTES = 100 * 1024;
+
+export interface Favicon {
+  body: Uint8Array | string;
+  contentType: string;
+  fallback: boolean;
+  // The host is not one of the space's links (yet): the avatar must not be cached
+  unknownHost?: boolean;
+}
+
+interface CachedFavicon {
+  contentType?: string;
+  data?: string; // base64url; absent in misses stored by earlier versions
+}
+
+const hashHue = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  return hash % 360;
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Rounded gradient square with the host's first letter. The colour is derived from
+ * the host, so a site always gets the same avatar.
+ */
+export const letterAvatar = (host: string): string => {
+  const name = host.replace(/^www\./i, '');
+  const char = escapeXml((name.charAt(0) || '?').toUpperCase());
+  const hue = hashHue(name);
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0%" stop-color="hsl(${hue}, 70%, 50%)"/><stop offset="100%" stop-color="hsl(${(hue + 40) % 360}, 70%, 50%)"/>`
+    + `</linearGradient></defs><rect width="100%" height="100%" fill="url(#g)" rx="16"/>`
+    + `<text x="50%" y="50%" dy=".35em" fill="white" font-family="Arial, sans-serif" font-weight="bold" font-size="32" text-anchor="middle">${char}</text>`
+    + `</svg>`;
+};
+
+const fetchIcon = async (iconUrl: string): Promise<{ bytes: Uint8Array; contentType: string } | null> => {
+  try {
+    const { response } = await fetchPublic(iconUrl, { headers: { 'Accept': 'image/*' } }, 5000);
+    let contentType = (response.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+    // Plenty of servers send .ico files as octet-stream
+    if (!contentType.startsWith('image/') && /\.ico(\?|$)/i.test(iconUrl)) contentType = 'image/x-icon';
+    if (!response.ok || !contentType.startsWith('image/')) {
+      response.body?.cancel();
+      return null;
+    }
+    const bytes = await readLimited(response, MAX_ICON_BYTES + 1);
+    return bytes.length > 0 && bytes.length <= MAX_ICON_BYTES ? { bytes, contentType } : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// The icon the home page declares, then /favicon.ico
+const resolveIcon = async (origin: string) => {
+  const fallbackIcon = `${origin}/favicon.ico`;
+  const declared = await fetchPageMetadata(origin).then(m => m.icon).catch(() => undefined);
+  if (declared && declared !== fallbackIcon) {
+    const icon = await fetchIcon(declared);
+    if (icon) return icon;
+  }
+  return fetchIcon(fallbackIcon);
+};
+
+const rememberMiss = (host: string) => {
+  misses.delete(host);
+  misses.set(host, Date.now() + MISSING_TTL * 1000);
+  if (misses.size > MAX_REMEMBERED_MISSES) misses.delete(misses.keys().next().value!);
+};
+
+const isRememberedMiss = (host: string) => {
+  const expiry = misses.get(host);
+  if (expiry !== undefined && expiry <= Date.now()) misses.delete(host);
+  return expiry !== undefined && expiry > Date.now();
+};
+
+// Hosts of the links anyone may see in the space; links in locked categories are left out
+// so the icon cannot tell whether a hidden link exists
+const isLinkHost = async (spaceEnv: Env, host: string) => {
+  const { links } = toClientView(await readAppData(spaceEnv), false);
+  return links.some(link => toPublicUrl(link.url)?.host === host);
+};
+
+/**
+ * The site icon for any page on `pageUrl`'s host, from the cache or fetched once
+ * and cached. Only hosts of links stored in `spaceEnv`'s space are fetched, since
+ * anyone may call this. Falls back to a letter avatar, also for hosts that may not
+ * be fetched.
+ */
+export const getFavicon = async (env: Env, spaceEnv: Env, pageUrl: string): Promise<Favicon> => {
+  const url = toPublicUrl(pageUrl);
+  const host = url?.hostname || pageUrl.replace(/^\w+:\/\//, '').split(/[/?#]/)[0];
+  const avatar: Favicon = { body: letterAvatar(host), contentType: 'image/svg+xml', fallback: true };
+  if (!url) return avatar;
+
+  // Icons are cached per host in the deployment's own storage, shared by all spaces
+  const storage = getStorage(env);
+  const key = `${FAVICON_PREFIX}${url.host}`;
+  const raw = await storage.get(key);
+  if (raw) {
+    const cached: CachedFavicon = JSON.parse(raw);
+    if (cached.data) return { body: fromBase64Url(cached.data), contentType: cached.contentType!, fallback: false };
+    // A miss stored before misses moved to memory
+    await storage.delete(key);
+  }
+  if (isRememberedMiss(url.host)) return avatar;
+  if (!await isLinkHost(spaceEnv, url.host)) return { ...avatar, unknownHost: true };
+
+  const icon = await resolveIcon(url.origin);
+  if (!icon) {
+    rememberMiss(url.host);
+    return avatar;
+  }
+  const entry: CachedFavicon = { contentType: icon.contentType, data: toBase64Url(icon.bytes) };
+  await storage.put(key, JSON.stringify(entry), { expirationTtl: ICON_TTL });
+  return { body: icon.bytes, contentType: icon.contentType, fallback: false };
+};
+
+/**
+ * The `/api/favicon` path for a page's site icon, as the browser's `faviconUrl` builds it.
+ */
+export const faviconPath = (env: Env, pageUrl: string): string | undefined => {
+  const url = toPublicUrl(pageUrl);
+  if (!url) return undefined;
+  return `/api/favicon?url=${encodeURIComponent(url.origin)}${env.SPACE ? `&space=${encodeURIComponent(env.SPACE)}` : ''}`;
+};
@@ -0,0 +1,89 @@
+import type { ChangeCounts, ItemDiff, RevisionDiff, RevisionSummary } from '../../types';
+import type { AppData } from './appData';
+import { Env } from './env';
+import { getStorage } from './storage';
+
+const HISTORY_INDEX_KEY = 'app_data_history';
+const DEFAULT_HISTORY_LIMIT = 20;
+
+const snapshotKey = (revision: number) => `app_data@${revision}`;
+
+const getHistoryLimit = (env: Env) => Math.max(1, Number(env.HISTORY_LIMIT) || DEFAULT_HISTORY_LIMIT);
+
+// Link check results are bookkeeping, not edits
+const comparable = (item: object) => JSON.stringify({ ...item, health: undefined });
+
+const diffById = <T extends { id: string }>(before: T[], after: T[]): ItemDiff<T> => {
+  const beforeMap = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+
+  const diff: ItemDiff<T> = { added: [], removed: [], updated: [] };
+  after.forEach(item => {
+    const previous = beforeMap.get(item.id);
+    if (!previous) diff.added.push(item);
+    else if (comparable(previous) !== comparable(item)) diff.updated.push({ before: previous, after: item });
+  });
+  diff.removed = before.filter(item => !afterIds.has(item.id));
+  return diff;
+};
+
+/**
+ * Item-level changes going from `before` to `after`. Reordering alone is not reported.
+ */
+export const diffAppData = (before: AppData, after: AppData): RevisionDiff => ({
+  links: diffById(before.links, after.links),
+  categories: diffById(before.categories, after.categories),
+  settings: JSON.stringify(before.settings || null) !== JSON.stringify(after.settings || null),
+});
+
+const countChanges = (diff: ItemDiff<unknown>): ChangeCounts => ({
+  added: diff.added.length,
+  removed: diff.removed.length,
+  updated: diff.updated.length,
+});
+
+const summarize = (before: AppData, after: AppData, restoredFrom?: number): RevisionSummary => {
+  const diff = diffAppData(before, after);
+  return {
+    revision: after.revision || 0,
+    updatedAt: after.updatedAt || Date.now(),
+    linkCount: after.links.length,
+    categoryCount: after.categories.length,
+    changes: { links: countChanges(diff.links), categories: countChanges(diff.categories), settings: diff.settings },
+    ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+  };
+};
+
+export const listRevisions = async (env: Env): Promise<RevisionSummary[]> => {
+  const raw = await getStorage(env).get(HISTORY_INDEX_KEY);
+  return raw ? JSON.parse(raw) : [];
+};
+
+export const readRevision = async (env: Env, revision: number): Promise<AppData | null> => {
+  const raw = await getStorage(env).get(snapshotKey(revision));
+  return raw ? JSON.parse(raw) : null;
+};
+
+/**
+ * Keeps a copy of every written revision under `app_data@<revision>` and
+ * drops the oldest copies beyond `HISTORY_LIMIT`.
+ */
+export const recordRevision = async (env: Env, previous: AppData, next: AppData, restoredFrom?: number) => {
+  const index = await listRevisions(env);
+  const entries = [summarize(previous, next, restoredFrom)];
+
+  // Data written before history existed still deserves a rollback point
+  const previousRevision = previous.revision || 0;
+  const hasPrevious = previous.links.length > 0 || previous.categories.length > 0;
+  if (hasPrevious && !index.some(e => e.revision === previousRevision)) {
+    await getStorage(env).put(snapshotKey(previousRevision), JSON.stringify(previous));
+    entries.push(summarize({ links: [], categories: [] }, { ...previous, revision: previousRevision }));
+  }
+
+  await getStorage(env).put(snapshotKey(next.revision || 0), JSON.stringify(next));
+
+  const all = [...entries, ...index.filter(e => e.revision !== next.revision)];
+  const limit = getHistoryLimit(env);
+  await Promise.all(all.slice(limit).map(e => getStorage(env).delete(snapshotKey(e.revision))));
+  await getStorage(env).put(HISTORY_INDEX_KEY, JSON.stringify(all.slice(0, limit)));
+};
@@ -0,0 +1,22 @@
+// 统一的响应头
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, x-auth-password, x-category-grant, X-Audit-Reason',
+  'Access-Control-Expose-Headers': 'ETag, Retry-After',
+};
+
+export const jsonResponse = (data: unknown, status: number = 200, headers: Record<string, string> = {}) => {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders, ...headers },
+  });
+};
+
+// 处理 OPTIONS 请求（解决跨域预检）
+export const preflightResponse = () => {
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+};
@@ -0,0 +1,88 @@
+import type { LinkHealth, LinkItem } from '../../types';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { APP_DATA_KEY, readAppData } from './appData';
+import { BudgetExhaustedError, fetchPublic, OutboundError, SubrequestBudget } from './outbound';
+import { urlKey } from './links';
+
+const CHECK_TIMEOUT_MS = 10000;
+
+// Servers that answer HEAD with these usually serve GET fine
+const RETRY_WITH_GET = new Set([403, 404, 405, 501]);
+
+// The page exists but will not show itself to a bot: not reported as broken
+const REACHABLE = new Set([401, 403, 429]);
+
+// HEAD and the GET fallback, each following up to 5 redirects
+export const MAX_CHECK_SUBREQUESTS = 12;
+
+const request = async (url: string, method: 'HEAD' | 'GET', budget?: SubrequestBudget) => {
+  const result = await fetchPublic(url, { method }, CHECK_TIMEOUT_MS, budget);
+  result.response.body?.cancel().catch(() => {});
+  return result;
+};
+
+/**
+ * Checks one URL with HEAD, falling back to GET for servers that do not support it.
+ * Returns null when `budget` ran out before the check could finish: the link was not
+ * checked, which says nothing about whether it works.
+ */
+export const checkLink = async (url: string, budget?: SubrequestBudget): Promise<LinkHealth | null> => {
+  const checkedAt = Date.now();
+  let result;
+  try {
+    result = await request(url, 'HEAD', budget);
+    if (RETRY_WITH_GET.has(result.response.status)) result = await request(url, 'GET', budget);
+  } catch (err) {
+    if (err instanceof BudgetExhaustedError) return null;
+    try {
+      result = await request(url, 'GET', budget);
+    } catch (retryErr) {
+      if (retryErr instanceof BudgetExhaustedError) return null;
+      const error = retryErr instanceof OutboundError ? retryErr.message : 'Request failed';
+      return { status: 'broken', error, checkedAt };
+    }
+  }
+
+  const httpStatus = result.response.status;
+  if (httpStatus >= 400 && !REACHABLE.has(httpStatus)) {
+    return { status: 'broken', httpStatus, checkedAt };
+  }
+  if (result.redirects > 0 && urlKey(result.finalUrl) !== urlKey(url)) {
+    return { status: 'redirect', httpStatus, finalUrl: result.finalUrl, checkedAt };
+  }
+  return { status: 'ok', httpStatus, checkedAt };
+};
+
+/**
+ * Stores check results on the links they belong to. Results are not content the
+ * user edited, so they are written in place: no new revision, history entry or audit
+ * record. Links whose URL changed while the check ran are left alone.
+ */
+export const recordHealth = async (env: Env, results: { id: string; url: string; health: LinkHealth }[]) => {
+  const data = await readAppData(env);
+  const byId = new Map(results.map(r => [r.id, r]));
+
+  let changed = false;
+  const links = data.links.map(link => {
+    const result = byId.get(link.id);
+    if (!result || result.url !== link.url) return link;
+    changed = true;
+    return { ...link, health: result.health };
+  });
+
+  if (changed) await getStorage(env).put(APP_DATA_KEY, JSON.stringify({ ...data, links }));
+};
+
+/**
+ * Clients never send `health`: links that come back with the same URL keep the
+ * stored result, links whose URL changed lose it.
+ */
+export const keepLinkHealth = (incoming: LinkItem[], stored: LinkItem[]): LinkItem[] => {
+  const storedById = new Map(stored.map(l => [l.id, l]));
+
+  return incoming.map(link => {
+    const previous = storedById.get(link.id);
+    return previous?.health && previous.url === link.url ? { ...link, health: previous.health } : link;
+  });
+};
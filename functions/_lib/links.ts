@@ -0,0 +1,46 @@
+import type { LinkItem } from '../../types';
+
+// Query parameters that only say where a click came from, never which page it is
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|msclkid|spm|from)$/i;
+
+/**
+ * Canonical form for storing a URL: lowercase host, no default port, no tracking
+ * parameters and no plain `#anchor` (hash routes like `#/page` are kept).
+ * Anything that does not parse is returned trimmed but otherwise untouched.
+ */
+export const normalizeUrl = (raw: string): string => {
+  const value = raw.trim();
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (e) {
+    return value;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return value;
+
+  [...url.searchParams.keys()].forEach(key => {
+    if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+  });
+  if (url.hash && !/^#[/!]/.test(url.hash)) url.hash = '';
+
+  // URL already lowercases the host and drops default ports
+  return url.toString();
+};
+
+/**
+ * Key two URLs share when they point at the same page: http and https, `www.`
+ * and a trailing slash are not told apart.
+ */
+export const urlKey = (raw: string): string => {
+  const normalized = normalizeUrl(raw);
+  return normalized
+    .replace(/^https?:\/\//i, '')
+    .replace(/^www\./i, '')
+    .replace(/\/(?=$|[?#])/, '')
+    .toLowerCase();
+};
+
+export const findLinkByUrl = (links: LinkItem[], url: string): LinkItem | undefined => {
+  const key = urlKey(url);
+  return links.find(l => l.url && urlKey(l.url) === key);
+};
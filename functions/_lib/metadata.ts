@@ -0,0 +1,124 @@
+import type { PageMetadata } from '../../types';
+import { fetchPublic, OutboundError, readLimited, SubrequestBudget } from './outbound';
+
+// <head> is almost always within the first few hundred KB
+const MAX_HTML_BYTES = 512 * 1024;
+
+const ATTRIBUTE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+  if (code[0] === '#') {
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) ? String.fromCodePoint(point) : match;
+  }
+  return ENTITIES[code.toLowerCase()] ?? match;
+});
+
+const clean = (text: string | undefined) => {
+  const value = text && decodeEntities(text).replace(/\s+/g, ' ').trim();
+  return value || undefined;
+};
+
+const parseTags = (html: string, name: string): Record<string, string>[] => {
+  return [...html.matchAll(new RegExp(`<${name}\\b[^>]*>`, 'gi'))].map(([tag]) => {
+    const attrs: Record<string, string> = {};
+    for (const [, key, double, single, bare] of tag.matchAll(ATTRIBUTE)) {
+      attrs[key.toLowerCase()] = double ?? single ?? bare ?? '';
+    }
+    return attrs;
+  });
+};
+
+const resolve = (href: string | undefined, base: string) => {
+  if (!href) return undefined;
+  try {
+    return new URL(decodeEntities(href.trim()), base).toString();
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// Larger declared sizes win; SVG scales to anything and apple-touch-icon is 180px unless stated
+const scoreIcon = (link: Record<string, string>) => {
+  if (/svg/i.test(link.type || '') || /\.svg(\?|$)/i.test(link.href || '')) return 512;
+  const sizes = (link.sizes || '').match(/(\d+)x(\d+)/i);
+  if (sizes) return Number(sizes[1]);
+  return /apple-touch-icon/i.test(link.rel) ? 180 : 16;
+};
+
+// Charset from the Content-Type header, else a <meta charset> in the first bytes, else UTF-8
+const decodeHtml = (bytes: Uint8Array, contentType: string) => {
+  const sniffed = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1]
+    || sniffed.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+    || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch (e) {
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+/**
+ * Pulls the title, description, Open Graph fields, canonical URL and best icon out of an HTML page.
+ */
+export const parseMetadata = (html: string, url: string, finalUrl: string): PageMetadata => {
+  const head = html.split(/<\/head>/i)[0];
+  const base = resolve(parseTags(head, 'base')[0]?.href, finalUrl) || finalUrl;
+
+  const meta: Record<string, string> = {};
+  parseTags(head, 'meta').forEach(attrs => {
+    const key = (attrs.property || attrs.name || attrs.itemprop || '').toLowerCase();
+    if (key && attrs.content !== undefined && !(key in meta)) meta[key] = attrs.content;
+  });
+
+  const links = parseTags(head, 'link').filter(l => l.rel && l.href);
+  const canonical = links.find(l => /(^|\s)canonical(\s|$)/i.test(l.rel));
+  const icons = links
+    .filter(l => /(^|\s)(icon|apple-touch-icon(-precomposed)?)(\s|$)/i.test(l.rel))
+    .sort((a, b) => scoreIcon(b) - scoreIcon(a));
+
+  return {
+    url,
+    finalUrl,
+    title: clean(head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]),
+    ogTitle: clean(meta['og:title'] || meta['twitter:title']),
+    description: clean(meta['description'] || meta['og:description'] || meta['twitter:description']),
+    image: resolve(meta['og:image'] || meta['og:image:url'] || meta['twitter:image'], base),
+    siteName: clean(meta['og:site_name'] || meta['application-name']),
+    canonicalUrl: resolve(canonical?.href, base),
+    icon: resolve(icons[0]?.href, base) || new URL('/favicon.ico', finalUrl).toString(),
+  };
+};
+
+/**
+ * Fetches `url` and extracts its metadata. Throws OutboundError when the page
+ * cannot be fetched or is not HTML.
+ */
+export const fetchPageMetadata = async (url: string, budget?: SubrequestBudget): Promise<PageMetadata> => {
+  const { response, finalUrl } = await fetchPublic(url, { headers: { 'Accept': 'text/html,application/xhtml+xml' } }, undefined, budget);
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!response.ok) {
+    response.body?.cancel();
+    throw new OutboundError(`HTTP ${response.status}`);
+  }
+  if (!/html/i.test(contentType)) {
+    response.body?.cancel();
+    throw new OutboundError(`Not an HTML page (${contentType || 'unknown type'})`);
+  }
+
+  const html = decodeHtml(await readLimited(response, MAX_HTML_BYTES), contentType);
+  return parseMetadata(html, url, finalUrl);
+};
+
+// A title for links saved without one: the page title, else the host name
+export const titleFromMetadata = (metadata: PageMetadata | null, url: string) => {
+  if (metadata?.title || metadata?.ogTitle) return (metadata.title || metadata.ogTitle)!;
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return url;
+  }
+};
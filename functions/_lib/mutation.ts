@@ -0,0 +1,54 @@
+import type { AuditAction } from '../../types';
+import { Env } from './env';
+import { authorize } from './auth';
+import { recordMutation } from './audit';
+import { jsonResponse } from './http';
+import { AppData, getRevision, matchesRevision, readAppData, revisionEtag, toClientView, writeAppData } from './appData';
+
+export type MutationResult =
+  | { data: AppData; body: unknown; status?: number; restoredFrom?: number }
+  | { error: string; status: number };
+
+/**
+ * Shared flow for routes that change the stored document: authenticate, load,
+ * honour `If-Match`, apply `mutate`, store the next revision and log it as `action`.
+ * Without `If-Match` the change is applied to whatever is stored now.
+ */
+export const mutateAppData = async (
+  request: Request,
+  env: Env,
+  action: AuditAction,
+  mutate: (data: AppData) => MutationResult | Promise<MutationResult>
+): Promise<Response> => {
+  if (!env.PASSWORD) {
+    return jsonResponse({ error: 'Server misconfigured: PASSWORD not set' }, 500);
+  }
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  try {
+    const stored = await readAppData(env);
+    const currentRevision = getRevision(stored);
+
+    const ifMatch = request.headers.get('If-Match');
+    if (ifMatch && !matchesRevision(ifMatch, currentRevision)) {
+      return jsonResponse(
+        { error: 'Conflict', revision: currentRevision, data: toClientView(stored, true) },
+        409,
+        { ETag: revisionEtag(currentRevision) }
+      );
+    }
+
+    const result = await mutate(stored);
+    if ('error' in result) {
+      return jsonResponse({ error: result.error }, result.status);
+    }
+
+    const saved = await writeAppData(env, result.data, stored, result.restoredFrom);
+    await recordMutation(env, request, auth, action, stored, saved, result.restoredFrom);
+    return jsonResponse(result.body, result.status || 200, { ETag: revisionEtag(getRevision(saved)) });
+  } catch (err: any) {
+    return jsonResponse({ error: err.message || 'Failed to save data' }, 500);
+  }
+};
@@ -0,0 +1,225 @@
+// Requests this server makes on a user's behalf (page metadata, favicons, link checks)
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; CloudNav/1.0)';
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 5;
+
+// Cloudflare Workers (free plan) may make 50 subrequests per invocation; every redirect hop is one
+const MAX_SUBREQUESTS = 50;
+
+// Non-public IPv4 ranges: "this network", private, shared (CGNAT), loopback, link-local,
+// IETF protocol, documentation, benchmarking, multicast and reserved
+const PRIVATE_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 3],
+];
+
+// Names that only mean something inside a network: localhost, mDNS and common LAN suffixes
+const PRIVATE_NAME = /(^|\.)(localhost|local|internal|lan|home\.arpa|localdomain)$/i;
+
+const parseIPv4 = (value: string): number | null => {
+  const parts = value.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.reduce((address, part) => address * 256 + Number(part), 0);
+};
+
+// Eight 16-bit groups; `::` and a trailing dotted IPv4 part are expanded
+const parseIPv6 = (value: string): number[] | null => {
+  let text = value.replace(/^\[|\]$/g, '');
+  const lastColon = text.lastIndexOf(':');
+  if (text.includes('.', lastColon)) {
+    const ipv4 = parseIPv4(text.slice(lastColon + 1));
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const [head, tail] = halves.map(half => (half ? half.split(':') : []));
+  const missing = 8 - head.length - (tail?.length || 0);
+  if (tail ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array(tail ? missing : 0).fill('0'), ...(tail || [])];
+  return groups.every(group => /^[0-9a-f]{1,4}$/i.test(group)) ? groups.map(group => parseInt(group, 16)) : null;
+};
+
+const isPublicIPv4 = (address: number) => !PRIVATE_IPV4.some(([network, bits]) =>
+  Math.floor(address / 2 ** (32 - bits)) === Math.floor(parseIPv4(network)! / 2 ** (32 - bits))
+);
+
+const isPublicIPv6 = (groups: number[]) => {
+  const embedded = (high: number, low: number) => isPublicIPv4(high * 0x10000 + low);
+  const prefixIs = (...prefix: number[]) => prefix.every((group, i) => groups[i] === group);
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) reach the IPv4 address they carry
+  if (prefixIs(0, 0, 0, 0, 0, 0xffff) || prefixIs(0x64, 0xff9b, 0, 0, 0, 0)) return embedded(groups[6], groups[7]);
+  // 6to4 carries it in the second and third groups
+  if (groups[0] === 0x2002) return embedded(groups[1], groups[2]);
+  // Otherwise only global unicast (2000::/3), minus IETF protocol (2001::/23) and documentation (2001:db8::/32)
+  if ((groups[0] & 0xe000) !== 0x2000) return false;
+  return !(groups[0] === 0x2001 && (groups[1] < 0x200 || groups[1] === 0xdb8));
+};
+
+/**
+ * Whether `address`, an IP literal as in a URL or a DNS answer, is reachable on the
+ * public internet. Anything that does not parse counts as not public.
+ */
+const isPublicAddress = (address: string): boolean => {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) return isPublicIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 !== null && isPublicIPv6(ipv6);
+};
+
+const isIpLiteral = (hostname: string) => hostname.startsWith('[') || parseIPv4(hostname) !== null;
+
+/**
+ * Parses `value` as a public http(s) URL, or returns null. The URL parser already turns
+ * decimal, octal and hex IPv4 hosts into dotted form and IPv6 hosts into compressed hex,
+ * so every IP literal is checked by value; names must have a public-looking suffix.
+ */
+export const toPublicUrl = (value: string | null | undefined): URL | null => {
+  if (!value) return null;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (e) {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  const hostname = url.hostname.replace(/\.$/, '');
+  if (isIpLiteral(hostname)) return isPublicAddress(hostname) ? url : null;
+  // Single-label names resolve through the local search domain
+  if (!hostname.includes('.') || PRIVATE_NAME.test(hostname)) return null;
+  return url;
+};
+
+type HostResolver = (hostname: string) => Promise<string[]>;
+
+let resolveHost: HostResolver | null = null;
+
+/**
+ * Lets the self-hosted server look up every name before connecting, so public names that
+ * resolve to private addresses are refused too. Workers have no DNS API, and Cloudflare
+ * does not route their requests into private networks.
+ */
+export const setHostResolver = (resolver: HostResolver | null) => {
+  resolveHost = resolver;
+};
+
+/**
+ * `toPublicUrl`, plus a look at what the name resolves to when a host resolver is set.
+ */
+export const checkPublicUrl = async (value: string | null | undefined): Promise<URL | null> => {
+  const url = toPublicUrl(value);
+  if (!url || !resolveHost || isIpLiteral(url.hostname)) return url;
+  const addresses = await resolveHost(url.hostname);
+  return addresses.length > 0 && addresses.every(isPublicAddress) ? url : null;
+};
+
+export class OutboundError extends Error {}
+
+// Not a failure of the target: the invocation ran out of subrequests before reaching it
+export class BudgetExhaustedError extends OutboundError {}
+
+/**
+ * Counts the subrequests one invocation makes, so a batch stops before Cloudflare's
+ * limit instead of seeing its last fetches fail. Shared by every `fetchPublic` call given it.
+ */
+export class SubrequestBudget {
+  constructor(public remaining: number = MAX_SUBREQUESTS) {}
+
+  take() {
+    if (this.remaining <= 0) throw new BudgetExhaustedError('Subrequest budget exhausted');
+    this.remaining--;
+  }
+
+  // Sets `count` aside for one task, or returns null when fewer are left; `release` returns what the task did not use
+  reserve(count: number): SubrequestBudget | null {
+    if (this.remaining < count) return null;
+    this.remaining -= count;
+    return new SubrequestBudget(count);
+  }
+
+  release(part: SubrequestBudget) {
+    this.remaining += part.remaining;
+    part.remaining = 0;
+  }
+}
+
+export interface OutboundResponse {
+  response: Response;
+  finalUrl: string;
+  redirects: number;
+}
+
+/**
+ * `fetch` with a timeout that follows redirects itself, so every hop is checked
+ * with `checkPublicUrl` and the final URL is known. Each hop is taken from `budget`
+ * when one is given.
+ */
+export const fetchPublic = async (
+  target: string,
+  init: RequestInit = {},
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  budget?: SubrequestBudget
+): Promise<OutboundResponse> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    let current = target;
+    for (let redirects = 0; ; redirects++) {
+      const url = await checkPublicUrl(current);
+      if (!url) throw new OutboundError(`Refusing to fetch ${current}`);
+      budget?.take();
+
+      const response = await fetch(url.toString(), {
+        ...init,
+        headers: { 'User-Agent': USER_AGENT, ...(init.headers as Record<string, string> | undefined) },
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+
+      const location = response.headers.get('Location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) throw new OutboundError('Too many redirects');
+        response.body?.cancel();
+        current = new URL(location, url).toString();
+        continue;
+      }
+      return { response, finalUrl: url.toString(), redirects };
+    }
+  } catch (err: any) {
+    if (err instanceof OutboundError) throw err;
+    throw new OutboundError(err?.name === 'AbortError' ? 'Timed out' : err?.message || 'Request failed');
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Reads at most `maxBytes` of a response body and cancels the rest.
+ */
+export const readLimited = async (response: Response, maxBytes: number): Promise<Uint8Array> => {
+  if (!response.body) return new Uint8Array();
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  reader.cancel().catch(() => {});
+
+  const bytes = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+    if (offset >= bytes.length) break;
+  }
+  return bytes;
+};
@@ -0,0 +1,39 @@
+import { fromBase64Url, timingSafeEqual, toBase64Url } from './crypto';
+
+const encoder = new TextEncoder();
+
+// Cloudflare Workers cap PBKDF2 at 100k iterations
+const ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const HASH_PREFIX = 'pbkdf2';
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return toBase64Url(new Uint8Array(bits));
+};
+
+export const isPasswordHash = (value: string): boolean => value.startsWith(`${HASH_PREFIX}$`);
+
+/**
+ * Returns `pbkdf2$<iterations>$<salt>$<hash>`.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [HASH_PREFIX, ITERATIONS, toBase64Url(salt), hash].join('$');
+};
+
+/**
+ * Checks a password against a stored PBKDF2 hash. Plaintext values that have
+ * not been migrated yet are still accepted, compared in constant time.
+ */
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!isPasswordHash(stored)) return timingSafeEqual(password, stored);
+
+  const [, iterations, salt, expected] = stored.split('$');
+  if (!iterations || !salt || !expected) return false;
+
+  const actual = await derive(password, fromBase64Url(salt), Number(iterations));
+  return timingSafeEqual(actual, expected);
+};
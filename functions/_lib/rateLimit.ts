@@ -0,0 +1,147 @@
+import type { FailedAttempt, Lockout } from '../../types';
+import { Env } from './env';
+import { jsonResponse } from './http';
+import { getStorage } from './storage';
+
+const IP_PREFIX = 'auth_fail:ip:';
+const GLOBAL_KEY = 'auth_fail:global';
+const LOG_KEY = 'auth_fail_log';
+
+// Per IP: a few free attempts, then 30s, 60s, 120s ... capped at an hour
+const FREE_ATTEMPTS = 5;
+const BASE_LOCK_SECONDS = 30;
+const MAX_LOCK_SECONDS = 60 * 60;
+const IP_COUNTER_TTL = 24 * 60 * 60;
+
+// Across all IPs: a ceiling for attacks spread over many addresses. It also locks out the
+// admin, so it is set far above what one client can reach, clears after a short window, and
+// can be raised or turned off (0) with GLOBAL_LOCK_FAILURES
+const GLOBAL_WINDOW_SECONDS = 5 * 60;
+const DEFAULT_GLOBAL_MAX_FAILURES = 500;
+
+const LOG_LIMIT = 100;
+
+interface IpCounter {
+  failures: number;
+  lockedUntil: number;
+  lastAt: number;
+}
+
+interface GlobalCounter {
+  failures: number;
+  windowStart: number;
+}
+
+const getGlobalMaxFailures = (env: Env) => {
+  const value = Number(env.GLOBAL_LOCK_FAILURES);
+  return env.GLOBAL_LOCK_FAILURES !== undefined && Number.isFinite(value) && value >= 0 ? value : DEFAULT_GLOBAL_MAX_FAILURES;
+};
+
+// When the global lock is on, the time it lifts; 0 when it is off or disabled
+const globalLockedUntil = (env: Env, global: GlobalCounter | null) => {
+  const max = getGlobalMaxFailures(env);
+  return max > 0 && global && global.failures >= max ? global.windowStart + GLOBAL_WINDOW_SECONDS * 1000 : 0;
+};
+
+export const getClientIp = (request: Request) => request.headers.get('CF-Connecting-IP') || 'unknown';
+
+const readJson = async <T>(env: Env, key: string): Promise<T | null> => {
+  const raw = await getStorage(env).get(key);
+  return raw ? JSON.parse(raw) as T : null;
+};
+
+const lockSeconds = (failures: number) => {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(MAX_LOCK_SECONDS, BASE_LOCK_SECONDS * 2 ** (failures - FREE_ATTEMPTS));
+};
+
+/**
+ * Seconds the caller must wait before another password check, 0 when allowed.
+ * Counters live in storage, so this is best effort under concurrent requests.
+ */
+export const getRetryAfter = async (env: Env, request: Request): Promise<number> => {
+  const now = Date.now();
+  const [ip, global] = await Promise.all([
+    readJson<IpCounter>(env, IP_PREFIX + getClientIp(request)),
+    readJson<GlobalCounter>(env, GLOBAL_KEY),
+  ]);
+
+  const until = Math.max(ip?.lockedUntil || 0, globalLockedUntil(env, global));
+  return until > now ? Math.ceil((until - now) / 1000) : 0;
+};
+
+/**
+ * Counts a wrong password for the caller's IP and the global window, and logs it.
+ */
+export const recordFailure = async (env: Env, request: Request, scope: FailedAttempt['scope'], target?: string) => {
+  const storage = getStorage(env);
+  const now = Date.now();
+  const ip = getClientIp(request);
+
+  const counter = await readJson<IpCounter>(env, IP_PREFIX + ip) || { failures: 0, lockedUntil: 0, lastAt: 0 };
+  counter.failures += 1;
+  counter.lastAt = now;
+  const locked = lockSeconds(counter.failures);
+  if (locked) counter.lockedUntil = now + locked * 1000;
+  await storage.put(IP_PREFIX + ip, JSON.stringify(counter), { expirationTtl: IP_COUNTER_TTL });
+
+  let global = await readJson<GlobalCounter>(env, GLOBAL_KEY);
+  if (!global || now - global.windowStart > GLOBAL_WINDOW_SECONDS * 1000) {
+    global = { failures: 0, windowStart: now };
+  }
+  global.failures += 1;
+  await storage.put(GLOBAL_KEY, JSON.stringify(global), { expirationTtl: GLOBAL_WINDOW_SECONDS });
+
+  const attempt: FailedAttempt = {
+    at: now,
+    ip,
+    scope,
+    target,
+    userAgent: request.headers.get('User-Agent')?.slice(0, 200) || undefined,
+    lockedFor: locked || undefined,
+  };
+  const log = await listFailedAttempts(env);
+  await storage.put(LOG_KEY, JSON.stringify([attempt, ...log].slice(0, LOG_LIMIT)));
+};
+
+// A correct password wipes the caller's own counter
+export const clearFailures = async (env: Env, ip: string) => {
+  await getStorage(env).delete(IP_PREFIX + ip);
+};
+
+export const clearGlobalLock = async (env: Env) => {
+  await getStorage(env).delete(GLOBAL_KEY);
+};
+
+export const listFailedAttempts = async (env: Env): Promise<FailedAttempt[]> => {
+  return await readJson<FailedAttempt[]>(env, LOG_KEY) || [];
+};
+
+export const clearFailedAttempts = async (env: Env) => {
+  await getStorage(env).delete(LOG_KEY);
+};
+
+/**
+ * IPs that are currently locked out, plus the global lock if it is active.
+ */
+export const listLockouts = async (env: Env): Promise<{ lockouts: Lockout[]; globalLockedUntil?: number }> => {
+  const now = Date.now();
+  const keys = await getStorage(env).list(IP_PREFIX);
+  const counters = await Promise.all(keys.map(async key => ({ ip: key.slice(IP_PREFIX.length), counter: await readJson<IpCounter>(env, key) })));
+
+  const lockouts = counters
+    .filter(({ counter }) => counter && counter.lockedUntil > now)
+    .map(({ ip, counter }) => ({ ip, failures: counter!.failures, lockedUntil: counter!.lockedUntil }));
+
+  const global = await readJson<GlobalCounter>(env, GLOBAL_KEY);
+  const globalUntil = globalLockedUntil(env, global);
+  return { lockouts, globalLockedUntil: globalUntil > now ? globalUntil : undefined };
+};
+
+export const throttledResponse = (retryAfter: number, headers: Record<string, string> = {}) => {
+  return jsonResponse(
+    { error: 'Too many failed attempts, try again later', retryAfter },
+    429,
+    { 'Retry-After': String(retryAfter), ...headers }
+  );
+};
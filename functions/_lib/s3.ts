@@ -0,0 +1,186 @@
+import type { BackupRetention, S3Config, WebDavBackupFile } from '../../types';
+import { USER_AGENT } from './outbound';
+import { backupFilename, backupsToPrune, backupTime, DEFAULT_RETENTION, xmlElements, xmlText } from './webdav';
+
+export type S3Target = S3Config & { secretAccessKey: string };
+
+const TIMEOUT_MS = 30000;
+
+const encoder = new TextEncoder();
+
+export class S3Error extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: string) => toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+
+const hmac = async (key: ArrayBuffer | Uint8Array, data: string) => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+};
+
+// RFC 3986 encoding as SigV4 expects it; `/` stays as-is in object keys
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string) => key.split('/').map(encodeRfc3986).join('/');
+
+// Virtual-hosted style puts the bucket in the host name; path style (MinIO) in the path
+const objectUrl = (target: S3Target, key: string, query: Record<string, string>) => {
+  const endpoint = new URL(target.endpoint);
+  const host = target.pathStyle ? endpoint.host : `${target.bucket}.${endpoint.host}`;
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+  const bucketPath = target.pathStyle ? `/${encodeRfc3986(target.bucket)}` : '';
+  // Bucket-level requests (listing) address the bucket itself: /bucket, or / on a bucket host
+  const path = `${basePath}${bucketPath}${key ? `/${encodeKey(key)}` : bucketPath ? '' : '/'}`;
+  const queryString = Object.keys(query).sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+  return { host, path, queryString, url: `${endpoint.protocol}//${host}${path}${queryString ? `?${queryString}` : ''}` };
+};
+
+/**
+ * One request against the bucket, signed with AWS Signature Version 4. Like WebDAV,
+ * the endpoint is configured by the admin, so private addresses are allowed.
+ */
+export const s3Fetch = async (target: S3Target, method: string, key: string = '', options: { query?: Record<string, string>; body?: string; contentType?: string } = {}) => {
+  const { host, path, queryString, url } = objectUrl(target, key, options.query || {});
+  const payloadHash = await sha256Hex(options.body || '');
+  const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${target.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...(options.contentType ? { 'content-type': options.contentType } : {}),
+  };
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    path,
+    queryString,
+    ...signedHeaders.map(name => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey: ArrayBuffer = await hmac(encoder.encode(`AWS4${target.secretAccessKey}`), date);
+  for (const part of [target.region, 's3', 'aws4_request']) signingKey = await hmac(signingKey, part);
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  // fetch sets Host itself, from the URL
+  const { host: _, ...sent } = headers;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    return await fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        'Authorization': `AWS4-HMAC-SHA256 Credential=${target.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+        'User-Agent': USER_AGENT,
+      },
+      body: options.body,
+      signal: controller.signal,
+    });
+  } catch (err: any) {
+    throw new S3Error(err?.name === 'AbortError' ? 'Timed out' : err?.message || 'Request failed');
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// S3 explains failures in an XML body: <Error><Code>SignatureDoesNotMatch</Code>...
+const failure = async (response: Response) => {
+  const code = xmlText(await response.text().catch(() => ''), 'Code');
+  return new S3Error(`S3 Error: ${response.status}${code ? ` ${code}` : ''}`, response.status);
+};
+
+/**
+ * Backups under the prefix, newest first. Follows continuation tokens, so any number of objects is listed.
+ */
+export const listS3 = async (target: S3Target, maxKeys?: number): Promise<WebDavBackupFile[]> => {
+  const files: WebDavBackupFile[] = [];
+  let token: string | undefined;
+  do {
+    const response = await s3Fetch(target, 'GET', '', {
+      query: {
+        'list-type': '2',
+        prefix: target.prefix,
+        ...(maxKeys ? { 'max-keys': String(maxKeys) } : {}),
+        ...(token ? { 'continuation-token': token } : {}),
+      },
+    });
+    if (!response.ok) throw await failure(response);
+
+    const xml = await response.text();
+    for (const entry of xmlElements(xml, 'Contents')) {
+      const name = (xmlText(entry, 'Key') || '').slice(target.prefix.length);
+      // Only files directly under the prefix, named the way this app names them
+      if (name.includes('/') || backupTime(name) === undefined) continue;
+      const size = Number(xmlText(entry, 'Size'));
+      files.push({ name, createdAt: backupTime(name), ...(Number.isFinite(size) ? { size } : {}) });
+    }
+    token = !maxKeys && xmlText(xml, 'IsTruncated') === 'true' ? xmlText(xml, 'NextContinuationToken') : undefined;
+  } while (token);
+  return files.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+};
+
+// Listing one key proves the endpoint, bucket and credentials are all right
+export const checkS3 = async (target: S3Target): Promise<number> => {
+  await listS3(target, 1);
+  return 200;
+};
+
+export const uploadS3 = async (target: S3Target, payload: unknown, filename: string): Promise<number> => {
+  const response = await s3Fetch(target, 'PUT', target.prefix + filename, {
+    body: JSON.stringify(payload),
+    contentType: 'application/json',
+  });
+  if (!response.ok) throw await failure(response);
+  response.body?.cancel();
+  return response.status;
+};
+
+export const downloadS3 = async (target: S3Target, filename: string): Promise<unknown> => {
+  const response = await s3Fetch(target, 'GET', target.prefix + filename);
+  if (!response.ok) {
+    if (response.status === 404) {
+      response.body?.cancel();
+      throw new S3Error('Backup file not found', 404);
+    }
+    throw await failure(response);
+  }
+  return response.json();
+};
+
+export const deleteS3 = async (target: S3Target, filename: string) => {
+  const response = await s3Fetch(target, 'DELETE', target.prefix + filename);
+  if (!response.ok && response.status !== 404) throw await failure(response);
+  response.body?.cancel();
+};
+
+/**
+ * Uploads `payload` as a new timestamped backup, then prunes like `backupToWebDav`.
+ */
+export const backupToS3 = async (target: S3Target, payload: unknown, retention: BackupRetention = DEFAULT_RETENTION) => {
+  const filename = backupFilename();
+  const status = await uploadS3(target, payload, filename);
+
+  let pruned: string[] = [];
+  try {
+    pruned = backupsToPrune(await listS3(target), retention).filter(name => name !== filename);
+    for (const name of pruned) await deleteS3(target, name);
+  } catch (err) {
+    console.error('Pruning old S3 backups failed', err);
+  }
+  return { status, filename, pruned };
+};
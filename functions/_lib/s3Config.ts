@@ -0,0 +1,68 @@
+import type { BackupRetention, ServerS3Config } from '../../types';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { openSecret, sealSecret } from './crypto';
+import { DEFAULT_RETENTION } from './webdav';
+import type { S3Target } from './s3';
+import type { S3ConfigInput } from './validation';
+
+const CONFIG_KEY = 's3_config';
+
+type S3ConfigRecord = Omit<S3Target, 'secretAccessKey'> & {
+  secretAccessKey: string; // sealSecret()
+  retention: BackupRetention;
+};
+
+const readConfig = async (env: Env): Promise<S3ConfigRecord | null> => {
+  const raw = await getStorage(env).get(CONFIG_KEY);
+  return raw ? JSON.parse(raw) : null;
+};
+
+/**
+ * The stored bucket as shown to the admin: everything but the secret key.
+ */
+export const getS3Config = async (env: Env): Promise<ServerS3Config | null> => {
+  const config = await readConfig(env);
+  if (!config) return null;
+  const { secretAccessKey, ...rest } = config;
+  return { ...rest, hasSecret: !!secretAccessKey };
+};
+
+/**
+ * Stores the bucket. Without a new secret key the stored one is kept.
+ */
+export const saveS3Config = async (env: Env, input: S3ConfigInput): Promise<boolean> => {
+  const previous = await readConfig(env);
+  const secretAccessKey = input.secretAccessKey ? await sealSecret(env, input.secretAccessKey) : previous?.secretAccessKey;
+  if (!secretAccessKey) return false;
+
+  const record: S3ConfigRecord = {
+    endpoint: input.endpoint,
+    region: input.region,
+    bucket: input.bucket,
+    prefix: input.prefix,
+    pathStyle: input.pathStyle,
+    accessKeyId: input.accessKeyId,
+    secretAccessKey,
+    retention: input.retention || previous?.retention || DEFAULT_RETENTION,
+  };
+  await getStorage(env).put(CONFIG_KEY, JSON.stringify(record));
+  return true;
+};
+
+export const deleteS3Config = async (env: Env) => {
+  await getStorage(env).delete(CONFIG_KEY);
+};
+
+/**
+ * The stored bucket with its secret key decrypted and its retention policy, or null
+ * when there is none (or the key was sealed with another `AUTH_SECRET`).
+ */
+export const getS3Target = async (env: Env): Promise<{ target: S3Target; retention: BackupRetention } | null> => {
+  const config = await readConfig(env);
+  if (!config) return null;
+  const secretAccessKey = await openSecret(env, config.secretAccessKey);
+  if (!secretAccessKey) return null;
+  const { retention, ...target } = config;
+  return { target: { ...target, secretAccessKey }, retention };
+};
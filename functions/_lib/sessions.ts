@@ -0,0 +1,60 @@
+import type { AuthSession } from '../../types';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { randomToken, signToken, verifyToken } from './crypto';
+
+const SESSIONS_KEY = 'auth_sessions';
+const SESSION_TYPE = 'session';
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type Session = Omit<AuthSession, 'current'>;
+
+// Expired sessions are dropped whenever the list is read
+export const listSessions = async (env: Env): Promise<Session[]> => {
+  const raw = await getStorage(env).get(SESSIONS_KEY);
+  const sessions: Session[] = raw ? JSON.parse(raw) : [];
+  return sessions.filter(s => s.expiresAt > Date.now());
+};
+
+const saveSessions = async (env: Env, sessions: Session[]) => {
+  await getStorage(env).put(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+export const createSession = async (env: Env, device: string, ip?: string, ttlMs: number = SESSION_TTL_MS) => {
+  const now = Date.now();
+  const session: Session = {
+    id: randomToken(12),
+    device: device.slice(0, 120) || 'Unknown device',
+    ip,
+    createdAt: now,
+    expiresAt: now + ttlMs,
+  };
+
+  await saveSessions(env, [...(await listSessions(env)), session]);
+  const token = await signToken(env, { typ: SESSION_TYPE, sid: session.id, exp: session.expiresAt });
+
+  return { token, session };
+};
+
+export const revokeSession = async (env: Env, id: string): Promise<boolean> => {
+  const sessions = await listSessions(env);
+  const remaining = sessions.filter(s => s.id !== id);
+  await saveSessions(env, remaining);
+  return remaining.length !== sessions.length;
+};
+
+export const revokeAllSessions = async (env: Env) => {
+  await getStorage(env).delete(SESSIONS_KEY);
+};
+
+/**
+ * A token is only valid while its signature checks out and the session has not been revoked.
+ */
+export const verifySessionToken = async (env: Env, token: string): Promise<Session | null> => {
+  const payload = await verifyToken(env, token, SESSION_TYPE);
+  if (!payload) return null;
+
+  const sessions = await listSessions(env);
+  return sessions.find(s => s.id === payload.sid) || null;
+};
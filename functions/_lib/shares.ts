@@ -0,0 +1,34 @@
+import type { CategoryShare } from '../../types';
+import { Env } from './env';
+import { getStorage } from './storage';
+import { randomToken } from './crypto';
+
+const SHARES_KEY = 'category_shares';
+
+// Expired shares are dropped whenever the list is read
+export const listShares = async (env: Env): Promise<CategoryShare[]> => {
+  const raw = await getStorage(env).get(SHARES_KEY);
+  const shares: CategoryShare[] = raw ? JSON.parse(raw) : [];
+  return shares.filter(s => !s.expiresAt || s.expiresAt > Date.now());
+};
+
+const saveShares = async (env: Env, shares: CategoryShare[]) => {
+  await getStorage(env).put(SHARES_KEY, JSON.stringify(shares));
+};
+
+export const createShare = async (env: Env, categoryId: string, expiresAt?: number, label?: string): Promise<CategoryShare> => {
+  const share: CategoryShare = { id: randomToken(18), categoryId, label, createdAt: Date.now(), expiresAt };
+  await saveShares(env, [...(await listShares(env)), share]);
+  return share;
+};
+
+export const revokeShare = async (env: Env, id: string): Promise<boolean> => {
+  const shares = await listShares(env);
+  const remaining = shares.filter(s => s.id !== id);
+  await saveShares(env, remaining);
+  return remaining.length !== shares.length;
+};
+
+export const findShare = async (env: Env, id: string): Promise<CategoryShare | null> => {
+  return (await listShares(env)).find(s => s.id === id) || null;
+};
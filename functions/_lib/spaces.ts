@@ -0,0 +1,67 @@
+import type { SpaceInfo } from '../../types';
+import { Env } from './env';
+import { jsonResponse } from './http';
+import { getStorage } from './storage';
+import { PrefixedStorage } from './storage/prefixed';
+
+// The original single-space deployment: its keys keep their unprefixed names
+export const DEFAULT_SPACE = 'default';
+
+export const SPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+const SPACES_KEY = 'spaces';
+
+export interface SpaceRecord extends SpaceInfo {
+  password: string; // PBKDF2 hash
+}
+
+const spacePrefix = (id: string) => `space:${id}:`;
+
+export const listSpaces = async (env: Env): Promise<SpaceRecord[]> => {
+  const raw = await getStorage(env).get(SPACES_KEY);
+  return raw ? JSON.parse(raw) : [];
+};
+
+export const saveSpaces = async (env: Env, spaces: SpaceRecord[]) => {
+  await getStorage(env).put(SPACES_KEY, JSON.stringify(spaces));
+};
+
+export const toSpaceInfo = ({ password, ...space }: SpaceRecord): SpaceInfo => space;
+
+/**
+ * Env for one space: storage confined to the space's keys and the space's own
+ * password. Sessions, history and lockouts follow automatically, and tokens
+ * signed for one space never verify in another.
+ */
+export const spaceEnv = (env: Env, space: SpaceRecord): Env => ({
+  ...env,
+  STORAGE: new PrefixedStorage(getStorage(env), spacePrefix(space.id)),
+  PASSWORD: space.password,
+  AUTH_SECRET: env.AUTH_SECRET ? `${env.AUTH_SECRET}:${space.id}` : undefined,
+  SPACE: space.id,
+});
+
+/**
+ * Resolves `?space=` to the env the route should use. Without the parameter
+ * (or with `default`) the deployment's own env is returned unchanged.
+ */
+export const resolveSpace = async (request: Request, env: Env, headers: Record<string, string> = {}): Promise<Env | Response> => {
+  const id = new URL(request.url).searchParams.get('space');
+  if (!id || id === DEFAULT_SPACE) return env;
+  if (!SPACE_ID_PATTERN.test(id)) {
+    return jsonResponse({ error: 'Invalid space' }, 400, headers);
+  }
+
+  const space = (await listSpaces(env)).find(s => s.id === id);
+  if (!space) return jsonResponse({ error: 'Space not found' }, 404, headers);
+  return spaceEnv(env, space);
+};
+
+/**
+ * Removes every key stored under a space.
+ */
+export const deleteSpaceData = async (env: Env, id: string) => {
+  const storage = getStorage(env);
+  const keys = await storage.list(spacePrefix(id));
+  await Promise.all(keys.map(key => storage.delete(key)));
+};
@@ -0,0 +1,65 @@
+import { PutOptions, Storage } from './types';
+
+// The subset of the D1 binding used here. Node adapters for SQLite can implement the same shape.
+export interface D1DatabaseLike {
+  prepare(query: string): D1StatementLike;
+}
+
+export interface D1StatementLike {
+  bind(...values: unknown[]): D1StatementLike;
+  first<T = Record<string, unknown>>(): Promise<T | null>;
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+  run(): Promise<unknown>;
+}
+
+const SCHEMA = 'CREATE TABLE IF NOT EXISTS cloudnav_kv (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)';
+
+/**
+ * Stores every key as a row of a single table; expired rows are ignored on read
+ * and removed when next touched.
+ */
+export class D1Storage implements Storage {
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private db: D1DatabaseLike) {}
+
+  private init() {
+    if (!this.ready) this.ready = this.db.prepare(SCHEMA).run();
+    return this.ready;
+  }
+
+  async get(key: string) {
+    await this.init();
+    const row = await this.db.prepare('SELECT value, expires_at FROM cloudnav_kv WHERE key = ?')
+      .bind(key)
+      .first<{ value: string; expires_at: number | null }>();
+    if (!row) return null;
+    if (row.expires_at && row.expires_at <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+    return row.value;
+  }
+
+  async put(key: string, value: string, options: PutOptions = {}) {
+    await this.init();
+    const expiresAt = options.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null;
+    await this.db.prepare(
+      'INSERT INTO cloudnav_kv (key, value, expires_at) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at'
+    ).bind(key, value, expiresAt).run();
+  }
+
+  async delete(key: string) {
+    await this.init();
+    await this.db.prepare('DELETE FROM cloudnav_kv WHERE key = ?').bind(key).run();
+  }
+
+  async list(prefix: string) {
+    await this.init();
+    // substr instead of LIKE, so `%` and `_` in keys need no escaping
+    const { results } = await this.db.prepare(
+      'SELECT key FROM cloudnav_kv WHERE substr(key, 1, ?) = ? AND (expires_at IS NULL OR expires_at > ?)'
+    ).bind(prefix.length, prefix, Date.now()).all<{ key: string }>();
+    return results.map(r => r.key);
+  }
+}
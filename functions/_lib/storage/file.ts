@@ -0,0 +1,73 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { PutOptions, Storage } from './types';
+
+interface FileEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Keeps every key in one JSON file, for self-hosting and local testing.
+ * Node only: Cloudflare builds never import this module.
+ */
+export class FileStorage implements Storage {
+  private entries: Promise<Record<string, FileEntry>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  private load() {
+    if (!this.entries) {
+      this.entries = readFile(this.path, 'utf8')
+        .then(raw => JSON.parse(raw) as Record<string, FileEntry>)
+        .catch((err: NodeJS.ErrnoException) => {
+          if (err.code === 'ENOENT') return {};
+          throw err;
+        });
+    }
+    return this.entries;
+  }
+
+  // Writes are queued and go through a temp file, so a crash never leaves half a file behind.
+  // Expired entries are dropped on the way, so keys written with a TTL do not pile up
+  private save(entries: Record<string, FileEntry>) {
+    Object.keys(entries).forEach(key => {
+      if (!this.isLive(entries[key])) delete entries[key];
+    });
+    this.writing = this.writing.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      await writeFile(tmp, JSON.stringify(entries));
+      await rename(tmp, this.path);
+    });
+    return this.writing;
+  }
+
+  private isLive(entry: FileEntry | undefined): entry is FileEntry {
+    return !!entry && (!entry.expiresAt || entry.expiresAt > Date.now());
+  }
+
+  async get(key: string) {
+    const entry = (await this.load())[key];
+    return this.isLive(entry) ? entry.value : null;
+  }
+
+  async put(key: string, value: string, options: PutOptions = {}) {
+    const entries = await this.load();
+    entries[key] = options.expirationTtl ? { value, expiresAt: Date.now() + options.expirationTtl * 1000 } : { value };
+    await this.save(entries);
+  }
+
+  async delete(key: string) {
+    const entries = await this.load();
+    if (!(key in entries)) return;
+    delete entries[key];
+    await this.save(entries);
+  }
+
+  async list(prefix: string) {
+    const entries = await this.load();
+    return Object.keys(entries).filter(key => key.startsWith(prefix) && this.isLive(entries[key]));
+  }
+}
@@ -0,0 +1,29 @@
+import { Env } from '../env';
+import { D1Storage } from './d1';
+import { KVStorage } from './kv';
+import { Storage } from './types';
+
+export type { Storage, PutOptions } from './types';
+
+// Bindings live as long as the isolate, so one wrapper per binding is enough
+const cache = new WeakMap<object, Storage>();
+
+const cached = (binding: object, create: () => Storage) => {
+  let storage = cache.get(binding);
+  if (!storage) {
+    storage = create();
+    cache.set(binding, storage);
+  }
+  return storage;
+};
+
+/**
+ * Picks the backend for this request: an instance injected by the host
+ * (self-hosted server), then a D1 binding, then the KV binding.
+ */
+export const getStorage = (env: Env): Storage => {
+  if (env.STORAGE) return env.STORAGE;
+  if (env.CLOUDNAV_D1) return cached(env.CLOUDNAV_D1, () => new D1Storage(env.CLOUDNAV_D1!));
+  if (env.CLOUDNAV_KV) return cached(env.CLOUDNAV_KV, () => new KVStorage(env.CLOUDNAV_KV!));
+  throw new Error('No storage configured: bind CLOUDNAV_KV or CLOUDNAV_D1');
+};
@@ -0,0 +1,40 @@
+import { PutOptions, Storage } from './types';
+
+// The subset of the Workers KV binding used here
+export interface KVNamespaceLike {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix?: string; cursor?: string }): Promise<{ keys: { name: string }[]; list_complete: boolean; cursor?: string }>;
+}
+
+// KV rejects TTLs shorter than a minute
+const MIN_KV_TTL = 60;
+
+export class KVStorage implements Storage {
+  constructor(private namespace: KVNamespaceLike) {}
+
+  get(key: string) {
+    return this.namespace.get(key);
+  }
+
+  put(key: string, value: string, options: PutOptions = {}) {
+    const ttl = options.expirationTtl;
+    return this.namespace.put(key, value, ttl ? { expirationTtl: Math.max(MIN_KV_TTL, Math.ceil(ttl)) } : undefined);
+  }
+
+  delete(key: string) {
+    return this.namespace.delete(key);
+  }
+
+  async list(prefix: string) {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.namespace.list({ prefix, cursor });
+      page.keys.forEach(k => keys.push(k.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return keys;
+  }
+}
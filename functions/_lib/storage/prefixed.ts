@@ -0,0 +1,26 @@
+import { PutOptions, Storage } from './types';
+
+/**
+ * Confines another storage to keys starting with `prefix`, so every key a
+ * route uses (data, history, sessions...) is namespaced without the route knowing.
+ */
+export class PrefixedStorage implements Storage {
+  constructor(private inner: Storage, private prefix: string) {}
+
+  get(key: string) {
+    return this.inner.get(this.prefix + key);
+  }
+
+  put(key: string, value: string, options?: PutOptions) {
+    return this.inner.put(this.prefix + key, value, options);
+  }
+
+  delete(key: string) {
+    return this.inner.delete(this.prefix + key);
+  }
+
+  async list(prefix: string) {
+    const keys = await this.inner.list(this.prefix + prefix);
+    return keys.map(key => key.slice(this.prefix.length));
+  }
+}
@@ -0,0 +1,16 @@
+export interface PutOptions {
+  // Seconds until the entry expires. Backends drop expired entries on read.
+  expirationTtl?: number;
+}
+
+/**
+ * Minimal key/value contract every route goes through, so the same API runs on
+ * Cloudflare KV, D1/SQLite or a JSON file.
+ */
+export interface Storage {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Keys starting with `prefix`, in no particular order
+  list(prefix: string): Promise<string[]>;
+}
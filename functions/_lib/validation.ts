@@ -0,0 +1,520 @@
+import { API_TOKEN_SCOPES, BACKUP_INTERVAL_HOURS, type ApiTokenScope, type BackupEncryptionKey, type BackupIntervalHours, type BackupRetention, type S3Config, type Category, type LinkItem, type SiteSettings } from '../../types';
+import type { AppData } from './appData';
+import { jsonResponse } from './http';
+import { DEFAULT_SPACE, SPACE_ID_PATTERN } from './spaces';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Generous enough for real bookmarks, small enough to keep one document well under the storage value limit
+export const LIMITS = {
+  bodyBytes: 5 * 1024 * 1024,
+  id: 64,
+  title: 500,
+  url: 2048,
+  description: 1000,
+  icon: 100_000, // Data URLs (generated SVG avatars) are allowed
+  categoryName: 100,
+  password: 128,
+  links: 10_000,
+  categories: 500,
+  settingsText: 100,
+  batch: 500, // Links per POST /api/link
+};
+
+// Scripts must never end up in an href
+const BLOCKED_PROTOCOLS = ['javascript:', 'data:', 'vbscript:'];
+
+const SETTINGS_CARD_STYLES: SiteSettings['cardStyle'][] = ['detailed', 'simple'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collects every problem in a payload instead of stopping at the first one,
+ * and copies only known fields into the cleaned result.
+ */
+class Checker {
+  errors: FieldError[] = [];
+
+  fail(field: string, message: string) {
+    this.errors.push({ field, message });
+  }
+
+  string(source: Record<string, unknown>, key: string, path: string, max: number, required: boolean): string | undefined {
+    const value = source[key];
+    const field = path ? `${path}.${key}` : key;
+    if (value === undefined || value === null || value === '') {
+      if (required) this.fail(field, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.fail(field, 'must be a string');
+      return undefined;
+    }
+    if (value.length > max) {
+      this.fail(field, `must be at most ${max} characters`);
+      return undefined;
+    }
+    return value;
+  }
+
+  // Images may also be `data:image/...` URLs or paths on this site (e.g. /api/favicon?url=...)
+  url(source: Record<string, unknown>, key: string, path: string, required: boolean, kind: 'link' | 'image' = 'link'): string | undefined {
+    const value = this.string(source, key, path, kind === 'image' ? LIMITS.icon : LIMITS.url, required);
+    if (value === undefined) return undefined;
+    if (kind === 'image' && value.startsWith('/') && !value.startsWith('//')) return value;
+
+    const field = path ? `${path}.${key}` : key;
+    let protocol: string;
+    try {
+      protocol = new URL(value).protocol;
+    } catch (e) {
+      this.fail(field, 'must be an absolute URL');
+      return undefined;
+    }
+    if (BLOCKED_PROTOCOLS.includes(protocol) && !(kind === 'image' && value.startsWith('data:image/'))) {
+      this.fail(field, `must not use the ${protocol} scheme`);
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(source: Record<string, unknown>, key: string, path: string): boolean | undefined {
+    const value = source[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'boolean') {
+      this.fail(path ? `${path}.${key}` : key, 'must be a boolean');
+      return undefined;
+    }
+    return value;
+  }
+
+  timestamp(source: Record<string, unknown>, key: string, path: string, required: boolean): number | undefined {
+    const value = source[key];
+    if (value === undefined || value === null) {
+      if (required) this.fail(path ? `${path}.${key}` : key, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      this.fail(path ? `${path}.${key}` : key, 'must be a timestamp in milliseconds');
+      return undefined;
+    }
+    return value;
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> | undefined {
+    if (!isObject(value)) {
+      this.fail(path || 'body', 'must be an object');
+      return undefined;
+    }
+    return value;
+  }
+
+  array(value: unknown, path: string, max: number): unknown[] | undefined {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be an array');
+      return undefined;
+    }
+    if (value.length > max) {
+      this.fail(path, `must contain at most ${max} items`);
+      return undefined;
+    }
+    return value;
+  }
+
+  uniqueIds(items: { id: string }[], path: string) {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (seen.has(item.id)) this.fail(`${path}[${index}].id`, `duplicates id "${item.id}"`);
+      seen.add(item.id);
+    });
+  }
+}
+
+// Only fields present in `source` are copied, so partial updates stay partial
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+/**
+ * - `stored`: a complete LinkItem as kept in the document
+ * - `create`: a new link; the server assigns `id`/`createdAt`, may pick the category and
+ *   fills in a missing title from the page
+ * - `patch`: any subset of the editable fields
+ */
+export type LinkMode = 'stored' | 'create' | 'patch';
+
+const parseLink = (check: Checker, value: unknown, path: string, mode: LinkMode): Partial<LinkItem> | undefined => {
+  const source = check.object(value, path);
+  if (!source) return undefined;
+
+  const before = check.errors.length;
+  const stored = mode === 'stored';
+  const link = compact<Partial<LinkItem>>({
+    id: stored ? check.string(source, 'id', path, LIMITS.id, true) : undefined,
+    title: check.string(source, 'title', path, LIMITS.title, stored),
+    url: check.url(source, 'url', path, mode !== 'patch'),
+    icon: check.url(source, 'icon', path, false, 'image'),
+    description: check.string(source, 'description', path, LIMITS.description, false),
+    categoryId: check.string(source, 'categoryId', path, LIMITS.id, stored),
+    createdAt: stored ? check.timestamp(source, 'createdAt', path, true) : undefined,
+    pinned: check.boolean(source, 'pinned', path),
+  });
+  return check.errors.length === before ? link : undefined;
+};
+
+const parseCategory = (check: Checker, value: unknown, path: string, partial: boolean): Partial<Category> | undefined => {
+  const source = check.object(value, path);
+  if (!source) return undefined;
+
+  const before = check.errors.length;
+  const category = compact<Partial<Category>>({
+    id: partial ? undefined : check.string(source, 'id', path, LIMITS.id, true),
+    name: check.string(source, 'name', path, LIMITS.categoryName, !partial),
+    icon: check.string(source, 'icon', path, LIMITS.icon, false),
+    password: check.string(source, 'password', path, LIMITS.password, false),
+    locked: check.boolean(source, 'locked', path),
+  });
+  return check.errors.length === before ? category : undefined;
+};
+
+const parseSettings = (check: Checker, value: unknown, path: string): Partial<SiteSettings> | undefined => {
+  const source = check.object(value, path);
+  if (!source) return undefined;
+
+  const before = check.errors.length;
+  const cardStyle = source.cardStyle;
+  if (cardStyle !== undefined && !SETTINGS_CARD_STYLES.includes(cardStyle as SiteSettings['cardStyle'])) {
+    check.fail(`${path}.cardStyle`, `must be one of ${SETTINGS_CARD_STYLES.join(', ')}`);
+  }
+  const settings = compact<Partial<SiteSettings>>({
+    title: check.string(source, 'title', path, LIMITS.settingsText, false),
+    navTitle: check.string(source, 'navTitle', path, LIMITS.settingsText, false),
+    favicon: check.url(source, 'favicon', path, false, 'image'),
+    cardStyle: cardStyle as SiteSettings['cardStyle'] | undefined,
+  });
+  return check.errors.length === before ? settings : undefined;
+};
+
+export type Validated<T> = { value: T; errors?: undefined } | { value?: undefined; errors: FieldError[] };
+
+const finish = <T>(check: Checker, value: T | undefined): Validated<T> => {
+  return check.errors.length > 0 || value === undefined ? { errors: check.errors } : { value };
+};
+
+/**
+ * Full document as sent to `POST /api/storage`.
+ */
+export const validateAppData = (body: unknown): Validated<Pick<AppData, 'links' | 'categories' | 'settings'>> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+
+  const links = check.array(source.links, 'links', LIMITS.links)
+    ?.map((link, index) => parseLink(check, link, `links[${index}]`, 'stored')) as LinkItem[] | undefined;
+  const categories = check.array(source.categories, 'categories', LIMITS.categories)
+    ?.map((cat, index) => parseCategory(check, cat, `categories[${index}]`, false)) as Category[] | undefined;
+  const settings = source.settings === undefined ? undefined : parseSettings(check, source.settings, 'settings') as SiteSettings;
+
+  if (links && check.errors.length === 0) check.uniqueIds(links, 'links');
+  if (categories && check.errors.length === 0) check.uniqueIds(categories, 'categories');
+
+  return finish(check, links && categories ? compact({ links, categories, settings }) : undefined);
+};
+
+export const validateLink = (body: unknown, mode: LinkMode): Validated<Partial<LinkItem>> => {
+  const check = new Checker();
+  return finish(check, parseLink(check, body, '', mode));
+};
+
+/**
+ * Several new links at once, as sent to `POST /api/link` with an array body.
+ */
+export const validateLinkBatch = (body: unknown): Validated<Partial<LinkItem>[]> => {
+  const check = new Checker();
+  const links = check.array(body, 'body', LIMITS.batch)
+    ?.map((link, index) => parseLink(check, link, `[${index}]`, 'create'));
+  return finish(check, links as Partial<LinkItem>[] | undefined);
+};
+
+/**
+ * A single category. With `partial`, every field is optional (PATCH) and `id` is ignored.
+ */
+export const validateCategory = (body: unknown, partial: boolean = false): Validated<Partial<Category>> => {
+  const check = new Checker();
+  return finish(check, parseCategory(check, body, '', partial));
+};
+
+export interface ShareInput {
+  categoryId: string;
+  label?: string;
+  expiresAt?: number;
+}
+
+/**
+ * A new category share as sent to `POST /api/shares`.
+ */
+export const validateShare = (body: unknown): Validated<ShareInput> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+
+  const expiresAt = check.timestamp(source, 'expiresAt', '', false);
+  if (expiresAt !== undefined && expiresAt <= Date.now()) {
+    check.fail('expiresAt', 'must be in the future');
+  }
+  const share = compact<Partial<ShareInput>>({
+    categoryId: check.string(source, 'categoryId', '', LIMITS.id, true),
+    label: check.string(source, 'label', '', LIMITS.settingsText, false),
+    expiresAt,
+  });
+  return finish(check, share as ShareInput);
+};
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+}
+
+/**
+ * A new API token as sent to `POST /api/auth/tokens`.
+ */
+export const validateApiToken = (body: unknown): Validated<ApiTokenInput> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+
+  const name = check.string(source, 'name', '', LIMITS.settingsText, true);
+  const scopes = check.array(source.scopes, 'scopes', API_TOKEN_SCOPES.length);
+  if (scopes && scopes.length === 0) check.fail('scopes', 'must contain at least one scope');
+  scopes?.forEach((scope, index) => {
+    if (!API_TOKEN_SCOPES.includes(scope as ApiTokenScope)) {
+      check.fail(`scopes[${index}]`, `must be one of ${API_TOKEN_SCOPES.join(', ')}`);
+    }
+  });
+  return finish(check, name && scopes ? { name, scopes: [...new Set(scopes)] as ApiTokenScope[] } : undefined);
+};
+
+export interface SpaceInput {
+  id?: string;
+  name?: string;
+  password?: string;
+}
+
+/**
+ * A space as sent to `POST /api/spaces`. With `partial` (PATCH), every field is optional and `id` is ignored.
+ */
+export const validateSpace = (body: unknown, partial: boolean = false): Validated<SpaceInput> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+
+  const id = partial ? undefined : check.string(source, 'id', '', LIMITS.id, true);
+  if (id !== undefined && (!SPACE_ID_PATTERN.test(id) || id === DEFAULT_SPACE)) {
+    check.fail('id', `must match ${SPACE_ID_PATTERN} and must not be "${DEFAULT_SPACE}"`);
+  }
+  const space = compact<SpaceInput>({
+    id,
+    name: check.string(source, 'name', '', LIMITS.settingsText, !partial),
+    password: check.string(source, 'password', '', LIMITS.password, !partial),
+  });
+  return finish(check, space);
+};
+
+export interface WebDavConfigInput {
+  url: string;
+  username: string;
+  password?: string; // Omitted to keep the stored one
+  enabled: boolean;
+  intervalHours: BackupIntervalHours;
+  retention?: BackupRetention; // Omitted to keep the stored policy
+  encryption?: BackupEncryptionKey | null; // Omitted to keep the stored key, null to stop encrypting
+}
+
+const RETENTION_LIMIT = 365;
+const KDF_ITERATIONS = { min: 100_000, max: 10_000_000 };
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const checkRetention = (check: Checker, source: Record<string, unknown>): BackupRetention | undefined => {
+  if (source.retention === undefined) return undefined;
+  const policy = check.object(source.retention, 'retention');
+  if (!policy) return undefined;
+  const counts = (['keepLast', 'keepDaily', 'keepWeekly'] as const).map(key => {
+    const value = policy[key] ?? 0;
+    const min = key === 'keepLast' ? 1 : 0;
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > RETENTION_LIMIT) {
+      check.fail(`retention.${key}`, `must be an integer from ${min} to ${RETENTION_LIMIT}`);
+    }
+    return value as number;
+  });
+  return { keepLast: counts[0], keepDaily: counts[1], keepWeekly: counts[2] };
+};
+
+/**
+ * The WebDAV target as sent to `POST /api/webdav/config`.
+ */
+export const validateWebDavConfig = (body: unknown): Validated<WebDavConfigInput> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+
+  const url = check.url(source, 'url', '', true);
+  if (url !== undefined && !/^https?:/.test(url)) check.fail('url', 'must be an http(s) URL');
+  const intervalHours = source.intervalHours ?? 0;
+  if (!BACKUP_INTERVAL_HOURS.includes(intervalHours as BackupIntervalHours)) {
+    check.fail('intervalHours', `must be one of ${BACKUP_INTERVAL_HOURS.join(', ')}`);
+  }
+  const retention = checkRetention(check, source);
+  let encryption: BackupEncryptionKey | null | undefined;
+  if (source.encryption === null) {
+    encryption = null;
+  } else if (source.encryption !== undefined) {
+    const key = check.object(source.encryption, 'encryption');
+    const kdf = key && check.object(key.kdf, 'encryption.kdf');
+    if (key && kdf) {
+      if (kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256') check.fail('encryption.kdf', 'must be PBKDF2 with SHA-256');
+      const iterations = kdf.iterations as number;
+      if (!Number.isInteger(iterations) || iterations < KDF_ITERATIONS.min || iterations > KDF_ITERATIONS.max) {
+        check.fail('encryption.kdf.iterations', `must be an integer from ${KDF_ITERATIONS.min} to ${KDF_ITERATIONS.max}`);
+      }
+      if (typeof kdf.salt !== 'string' || !BASE64_PATTERN.test(kdf.salt) || kdf.salt.length > 64) {
+        check.fail('encryption.kdf.salt', 'must be base64');
+      }
+      // A raw AES-256 key: 32 bytes, 44 base64 characters
+      if (typeof key.key !== 'string' || !BASE64_PATTERN.test(key.key) || key.key.length !== 44) {
+        check.fail('encryption.key', 'must be a base64 AES-256 key');
+      }
+      encryption = { kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: kdf.salt as string }, key: key.key as string };
+    }
+  }
+  const config = compact<Partial<WebDavConfigInput>>({
+    url,
+    username: check.string(source, 'username', '', LIMITS.settingsText, true),
+    password: check.string(source, 'password', '', LIMITS.password, false),
+    enabled: check.boolean(source, 'enabled', '') ?? false,
+    intervalHours: intervalHours as BackupIntervalHours,
+    retention,
+    encryption,
+  });
+  return finish(check, config as WebDavConfigInput);
+};
+
+export interface S3ConfigInput extends S3Config {
+  secretAccessKey?: string; // Omitted to keep the stored one
+  retention?: BackupRetention; // Omitted to keep the stored policy
+}
+
+// S3 bucket naming rules (lowercase, 3-63 characters)
+const BUCKET_PATTERN = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+
+/**
+ * The S3 target as sent to `POST /api/s3/config`.
+ */
+export const validateS3Config = (body: unknown): Validated<S3ConfigInput> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+
+  const endpoint = check.url(source, 'endpoint', '', true);
+  if (endpoint !== undefined && !/^https?:/.test(endpoint)) check.fail('endpoint', 'must be an http(s) URL');
+  const bucket = check.string(source, 'bucket', '', LIMITS.settingsText, true);
+  if (bucket !== undefined && !BUCKET_PATTERN.test(bucket)) check.fail('bucket', 'is not a valid bucket name');
+  // Stored as "" or "path/to/dir/" so keys are prefix + file name
+  const prefix = (check.string(source, 'prefix', '', LIMITS.settingsText, false) || '').trim().replace(/^\/+|\/+$/g, '');
+  const config = compact<Partial<S3ConfigInput>>({
+    endpoint: endpoint?.replace(/\/+$/, ''),
+    region: check.string(source, 'region', '', LIMITS.settingsText, false) || 'us-east-1',
+    bucket,
+    prefix: prefix ? `${prefix}/` : '',
+    pathStyle: check.boolean(source, 'pathStyle', '') ?? false,
+    accessKeyId: check.string(source, 'accessKeyId', '', LIMITS.settingsText, true),
+    secretAccessKey: check.string(source, 'secretAccessKey', '', LIMITS.settingsText, false),
+    retention: checkRetention(check, source),
+  });
+  return finish(check, config as S3ConfigInput);
+};
+
+export type BackupOperation = 'check' | 'upload' | 'list' | 'download';
+
+const BACKUP_OPERATIONS: BackupOperation[] = ['check', 'upload', 'list', 'download'];
+
+export interface BackupRequestInput {
+  operation: BackupOperation;
+  payload?: Record<string, unknown>; // The backup to upload, stored as sent
+  filename?: string; // For downloads; the newest backup when omitted
+}
+
+export interface WebDavRequestInput extends BackupRequestInput {
+  // Overrides of the stored target, e.g. to test a connection before saving
+  config?: { url?: string; username?: string; password?: string };
+}
+
+const checkBackupRequest = (check: Checker, source: Record<string, unknown>): Partial<BackupRequestInput> => {
+  const operation = source.operation as BackupOperation;
+  if (!BACKUP_OPERATIONS.includes(operation)) check.fail('operation', `must be one of ${BACKUP_OPERATIONS.join(', ')}`);
+  return compact<Partial<BackupRequestInput>>({
+    operation,
+    payload: operation === 'upload' ? check.object(source.payload, 'payload') : undefined,
+    filename: check.string(source, 'filename', '', LIMITS.settingsText, false),
+  });
+};
+
+/**
+ * A backup operation as sent to `POST /api/s3`.
+ */
+export const validateBackupRequest = (body: unknown): Validated<BackupRequestInput> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+  return finish(check, checkBackupRequest(check, source) as BackupRequestInput);
+};
+
+/**
+ * A backup operation as sent to `POST /api/webdav`, with optional overrides of the stored target.
+ */
+export const validateWebDavRequest = (body: unknown): Validated<WebDavRequestInput> => {
+  const check = new Checker();
+  const source = check.object(body, '');
+  if (!source) return finish(check, undefined);
+
+  const request: Partial<WebDavRequestInput> = checkBackupRequest(check, source);
+  if (source.config !== undefined && source.config !== null) {
+    const config = check.object(source.config, 'config');
+    if (config) {
+      const url = check.url(config, 'url', 'config', false);
+      if (url !== undefined && !/^https?:/.test(url)) check.fail('config.url', 'must be an http(s) URL');
+      request.config = compact({
+        url,
+        username: check.string(config, 'username', 'config', LIMITS.settingsText, false),
+        password: check.string(config, 'password', 'config', LIMITS.password, false),
+      });
+    }
+  }
+  return finish(check, request as WebDavRequestInput);
+};
+
+/**
+ * Reads a JSON body, enforcing the size limit. Returns a ready 400/413 response on failure.
+ */
+export const readJsonBody = async (request: Request, headers: Record<string, string> = {}): Promise<unknown | Response> => {
+  const declared = Number(request.headers.get('Content-Length') || 0);
+  if (declared > LIMITS.bodyBytes) {
+    return jsonResponse({ error: `Request body exceeds ${LIMITS.bodyBytes} bytes` }, 413, headers);
+  }
+
+  const text = await request.text();
+  if (text.length > LIMITS.bodyBytes) {
+    return jsonResponse({ error: `Request body exceeds ${LIMITS.bodyBytes} bytes` }, 413, headers);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400, headers);
+  }
+};
+
+export const validationErrorResponse = (errors: FieldError[], headers: Record<string, string> = {}) => {
+  return jsonResponse({ error: 'Validation failed', fields: errors }, 400, headers);
+};
@@ -0,0 +1,206 @@
+import type { BackupRetention, WebDavBackupFile, WebDavConfig } from '../../types';
+import { USER_AGENT } from './outbound';
+
+export type WebDavTarget = Pick<WebDavConfig, 'url' | 'username' | 'password'>;
+
+// Written by versions that kept a single backup; still listed and restorable, never pruned
+export const LEGACY_BACKUP_FILENAME = 'cloudnav_backup.json';
+
+// cloudnav_backup_20261019T083000Z.json
+const BACKUP_NAME_PATTERN = /^cloudnav_backup_(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z\.json$/;
+
+export const DEFAULT_RETENTION: BackupRetention = { keepLast: 10, keepDaily: 7, keepWeekly: 4 };
+
+const TIMEOUT_MS = 30000;
+
+export class WebDavError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+// Directory URLs must end with / for relative file names to resolve inside them
+const directoryUrl = (target: WebDavTarget) => {
+  const url = target.url.trim();
+  return url.endsWith('/') ? url : `${url}/`;
+};
+
+/**
+ * One request against the target directory (or a file in it), with Basic auth.
+ * WebDAV servers are configured by the admin, so private addresses are allowed.
+ */
+export const webdavFetch = async (target: WebDavTarget, method: string, filename: string = '', init: RequestInit = {}) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    return await fetch(directoryUrl(target) + filename, {
+      ...init,
+      method,
+      headers: {
+        'Authorization': `Basic ${btoa(`${target.username}:${target.password}`)}`,
+        'User-Agent': USER_AGENT,
+        ...(init.headers as Record<string, string> | undefined),
+      },
+      signal: controller.signal,
+    });
+  } catch (err: any) {
+    throw new WebDavError(err?.name === 'AbortError' ? 'Timed out' : err?.message || 'Request failed');
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// 207 Multi-Status is how PROPFIND answers
+const succeeded = (response: Response) => response.ok || response.status === 207;
+
+export const checkWebDav = async (target: WebDavTarget): Promise<number> => {
+  const response = await webdavFetch(target, 'PROPFIND', '', { headers: { Depth: '0' } });
+  response.body?.cancel();
+  if (!succeeded(response)) throw new WebDavError(`WebDAV Error: ${response.status}`, response.status);
+  return response.status;
+};
+
+/**
+ * File name for a backup taken at `date`; the timestamp (UTC, to the second) sorts by name.
+ */
+export const backupFilename = (date: Date = new Date()): string => {
+  return `cloudnav_backup_${date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}.json`;
+};
+
+export const backupTime = (name: string): number | undefined => {
+  const match = name.match(BACKUP_NAME_PATTERN);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, sec] = match.map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi, sec);
+};
+
+// Only names this app writes may be downloaded or deleted, so a file name can never leave the directory
+export const isBackupFilename = (name: string): boolean => {
+  return name === LEGACY_BACKUP_FILENAME || BACKUP_NAME_PATTERN.test(name);
+};
+
+export const uploadWebDav = async (target: WebDavTarget, payload: unknown, filename: string): Promise<number> => {
+  const response = await webdavFetch(target, 'PUT', filename, {
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  response.body?.cancel();
+  if (!succeeded(response)) throw new WebDavError(`WebDAV Error: ${response.status}`, response.status);
+  return response.status;
+};
+
+export const downloadWebDav = async (target: WebDavTarget, filename: string): Promise<unknown> => {
+  const response = await webdavFetch(target, 'GET', filename);
+  if (!response.ok) {
+    response.body?.cancel();
+    if (response.status === 404) throw new WebDavError('Backup file not found', 404);
+    throw new WebDavError(`WebDAV Error: ${response.status}`, response.status);
+  }
+  return response.json();
+};
+
+// PROPFIND answers use whatever namespace prefix the server likes (d:, D:, lp1:, none)
+export const xmlElements = (xml: string, name: string): string[] => {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'gi');
+  return [...xml.matchAll(pattern)].map(match => match[1]);
+};
+
+export const xmlText = (xml: string, name: string): string | undefined => {
+  const value = xmlElements(xml, name)[0];
+  return value === undefined ? undefined : value.trim().replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+};
+
+/**
+ * Backups in the target directory, newest first (PROPFIND with `Depth: 1`).
+ */
+export const listWebDav = async (target: WebDavTarget): Promise<WebDavBackupFile[]> => {
+  const response = await webdavFetch(target, 'PROPFIND', '', {
+    headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+    body: '<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:"><d:prop><d:getlastmodified/><d:getcontentlength/></d:prop></d:propfind>',
+  });
+  if (!succeeded(response)) {
+    response.body?.cancel();
+    throw new WebDavError(`WebDAV Error: ${response.status}`, response.status);
+  }
+
+  const files: WebDavBackupFile[] = [];
+  for (const entry of xmlElements(await response.text(), 'response')) {
+    const href = xmlText(entry, 'href');
+    if (!href || href.endsWith('/')) continue;
+
+    let name: string;
+    try {
+      name = decodeURIComponent(href.split('/').pop() || '');
+    } catch (e) {
+      continue;
+    }
+    if (!isBackupFilename(name)) continue;
+
+    const modified = Date.parse(xmlText(entry, 'getlastmodified') || '');
+    const size = Number(xmlText(entry, 'getcontentlength'));
+    files.push({
+      name,
+      createdAt: backupTime(name) ?? (Number.isNaN(modified) ? undefined : modified),
+      ...(Number.isFinite(size) ? { size } : {}),
+    });
+  }
+  return files.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+};
+
+export const deleteWebDav = async (target: WebDavTarget, filename: string) => {
+  const response = await webdavFetch(target, 'DELETE', filename);
+  response.body?.cancel();
+  if (!response.ok && response.status !== 404) throw new WebDavError(`WebDAV Error: ${response.status}`, response.status);
+};
+
+// Monday of the UTC week `time` falls in
+const weekKey = (time: number) => {
+  const date = new Date(time);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - (date.getUTCDay() + 6) % 7)).toISOString().slice(0, 10);
+};
+
+/**
+ * Names of the timestamped backups `retention` lets go: everything that is not one of
+ * the newest `keepLast`, the newest of each of the last `keepDaily` days that have a
+ * backup, or the newest of each of the last `keepWeekly` such weeks (days and weeks in UTC).
+ */
+export const backupsToPrune = (files: WebDavBackupFile[], retention: BackupRetention): string[] => {
+  const timed = files
+    .map(file => ({ name: file.name, time: backupTime(file.name) }))
+    .filter((file): file is { name: string; time: number } => file.time !== undefined)
+    .sort((a, b) => b.time - a.time);
+
+  const keep = new Set(timed.slice(0, retention.keepLast).map(file => file.name));
+  const keepNewestPer = (key: (time: number) => string, count: number) => {
+    const seen = new Set<string>();
+    for (const file of timed) {
+      if (seen.size >= count) break;
+      const bucket = key(file.time);
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      keep.add(file.name);
+    }
+  };
+  keepNewestPer(time => new Date(time).toISOString().slice(0, 10), retention.keepDaily);
+  keepNewestPer(weekKey, retention.keepWeekly);
+
+  return timed.filter(file => !keep.has(file.name)).map(file => file.name);
+};
+
+/**
+ * Uploads `payload` as a new timestamped backup, then deletes the backups the
+ * retention policy no longer keeps. Pruning failures do not fail the upload.
+ */
+export const backupToWebDav = async (target: WebDavTarget, payload: unknown, retention: BackupRetention = DEFAULT_RETENTION) => {
+  const filename = backupFilename();
+  const status = await uploadWebDav(target, payload, filename);
+
+  let pruned: string[] = [];
+  try {
+    pruned = backupsToPrune(await listWebDav(target), retention).filter(name => name !== filename);
+    for (const name of pruned) await deleteWebDav(target, name);
+  } catch (err) {
+    console.error('Pruning old WebDAV backups failed', err);
+  }
+  return { status, filename, pruned };
+};
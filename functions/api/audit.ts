@@ -0,0 +1,36 @@
+import { Env } from '../_lib/env';
+import { resolveSpace } from '../_lib/spaces';
+import { authorize } from '../_lib/auth';
+import { jsonResponse, preflightResponse } from '../_lib/http';
+import { listAuditEntries } from '../_lib/audit';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 操作记录（最新在前）
+// 可选过滤：?action=link（前缀匹配）、?target=<链接或分类 id>、?actor=<会话或令牌 id>、?limit=
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const params = new URL(request.url).searchParams;
+  const action = params.get('action');
+  const target = params.get('target');
+  const actor = params.get('actor');
+  const limit = Number(params.get('limit')) || undefined;
+
+  try {
+    let entries = await listAuditEntries(env);
+    if (action) entries = entries.filter(e => e.action === action || e.action.startsWith(`${action}.`));
+    if (target) entries = entries.filter(e => e.targets.some(t => t.id === target));
+    if (actor) entries = entries.filter(e => e.actor.id === actor || e.actor.method === actor);
+    return jsonResponse({ entries: limit ? entries.slice(0, limit) : entries });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to fetch audit log' }, 500);
+  }
+};
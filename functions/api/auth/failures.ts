@@ -0,0 +1,43 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { clearFailedAttempts, clearFailures, clearGlobalLock, listFailedAttempts, listLockouts } from '../../_lib/rateLimit';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 最近的密码错误记录和当前被锁定的 IP
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const [attempts, { lockouts, globalLockedUntil }] = await Promise.all([listFailedAttempts(env), listLockouts(env)]);
+  return jsonResponse({ attempts, lockouts, globalLockedUntil });
+};
+
+// DELETE: ?ip= 解除某个 IP 的锁定，?global=1 解除全局锁定，不带参数则清空记录
+export const onRequestDelete = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const params = new URL(request.url).searchParams;
+  const ip = params.get('ip');
+  if (ip) {
+    await clearFailures(env, ip);
+  } else if (params.get('global')) {
+    await clearGlobalLock(env);
+  } else {
+    await clearFailedAttempts(env);
+  }
+  return jsonResponse({ success: true });
+};
@@ -0,0 +1,47 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { verifyAdminPassword } from '../../_lib/auth';
+import { createSession } from '../../_lib/sessions';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { clearFailures, getClientIp, getRetryAfter, recordFailure, throttledResponse } from '../../_lib/rateLimit';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 用管理密码换取会话令牌，浏览器不再保存明文密码
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  if (!env.PASSWORD) {
+    return jsonResponse({ error: 'Server misconfigured: PASSWORD not set' }, 500);
+  }
+
+  // 连续输错后按 IP 递增锁定时间
+  const retryAfter = await getRetryAfter(env, request);
+  if (retryAfter > 0) {
+    return throttledResponse(retryAfter);
+  }
+
+  try {
+    const { password, device } = await request.json() as { password?: string; device?: string };
+
+    if (!password || !(await verifyAdminPassword(password, env))) {
+      await recordFailure(env, request, 'admin');
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    await clearFailures(env, getClientIp(request));
+
+    const { token, session } = await createSession(
+      env,
+      device || request.headers.get('User-Agent') || '',
+      request.headers.get('CF-Connecting-IP') || undefined
+    );
+
+    return jsonResponse({ token, expiresAt: session.expiresAt, session });
+  } catch (err: any) {
+    return jsonResponse({ error: err.message }, 500);
+  }
+};
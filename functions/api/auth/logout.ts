@@ -0,0 +1,25 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { revokeSession } from '../../_lib/sessions';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 注销当前会话
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  if (auth.sessionId) {
+    await revokeSession(env, auth.sessionId);
+  }
+
+  return jsonResponse({ success: true });
+};
@@ -0,0 +1,63 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { createSession, listSessions, revokeSession } from '../../_lib/sessions';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+
+// Tokens minted for the browser extension live for a year
+const DEVICE_TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 列出所有已登录的设备
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const sessions = await listSessions(env);
+  return jsonResponse({
+    sessions: sessions.map(s => ({ ...s, current: s.id === auth.sessionId })),
+  });
+};
+
+// POST: 为其他设备（如浏览器扩展）签发独立的会话令牌
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  try {
+    const { device } = await request.json() as { device?: string };
+    const { token, session } = await createSession(env, device || 'Device', undefined, DEVICE_TOKEN_TTL_MS);
+    return jsonResponse({ token, expiresAt: session.expiresAt, session });
+  } catch (err: any) {
+    return jsonResponse({ error: err.message }, 500);
+  }
+};
+
+// DELETE: 吊销指定设备 (?id=)
+export const onRequestDelete = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return jsonResponse({ error: 'Missing id' }, 400);
+  }
+
+  const revoked = await revokeSession(env, id);
+  return revoked ? jsonResponse({ success: true }) : jsonResponse({ error: 'Session not found' }, 404);
+};
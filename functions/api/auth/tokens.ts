@@ -0,0 +1,66 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { createApiToken, listApiTokens, revokeApiToken } from '../../_lib/apiTokens';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { recordEvent } from '../../_lib/audit';
+import { readJsonBody, validateApiToken, validationErrorResponse } from '../../_lib/validation';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 列出 API 令牌（不含令牌本身）
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  return jsonResponse({ tokens: await listApiTokens(env) });
+};
+
+// POST: 创建带权限范围的 API 令牌，明文令牌只在此处返回一次
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: input, errors } = validateApiToken(body);
+  if (errors) return validationErrorResponse(errors);
+
+  const { token, apiToken } = await createApiToken(env, input.name, input.scopes);
+  await recordEvent(env, request, auth, 'token.create', { type: 'token', change: 'added', id: apiToken.id, label: apiToken.name });
+  return jsonResponse({ token, apiToken }, 201);
+};
+
+// DELETE: 吊销指定令牌 (?id=)
+export const onRequestDelete = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return jsonResponse({ error: 'Missing id' }, 400);
+  }
+
+  // 先取名称，吊销后操作记录里仍能看出是哪个令牌
+  const name = (await listApiTokens(env)).find(t => t.id === id)?.name;
+  if (!await revokeApiToken(env, id)) {
+    return jsonResponse({ error: 'Token not found' }, 404);
+  }
+  await recordEvent(env, request, auth, 'token.revoke', { type: 'token', change: 'removed', id, label: name });
+  return jsonResponse({ success: true });
+};
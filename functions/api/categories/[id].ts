@@ -0,0 +1,102 @@
+import { DEFAULT_CATEGORIES, type Category } from '../../../types';
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { preflightResponse } from '../../_lib/http';
+import { toClientCategory } from '../../_lib/appData';
+import { mutateAppData } from '../../_lib/mutation';
+import { hashPassword } from '../../_lib/password';
+import { readJsonBody, validateCategory, validationErrorResponse } from '../../_lib/validation';
+
+type Context = { request: Request; env: Env; params: { id: string } };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 以指定 id 新建分类
+export const onRequestPost = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: input, errors } = validateCategory({ ...(body as object), id: params.id });
+  if (errors) return validationErrorResponse(errors);
+
+  return mutateAppData(request, env, 'category.create', async data => {
+    if (data.categories.some(c => c.id === params.id)) {
+      return { error: 'Category already exists', status: 409 };
+    }
+
+    const category: Category = { id: params.id, name: input.name!, icon: input.icon || 'Folder' };
+    if (input.password) category.password = await hashPassword(input.password);
+
+    return {
+      data: { ...data, categories: [...data.categories, category] },
+      body: toClientCategory(category),
+      status: 201,
+    };
+  });
+};
+
+// PATCH: 修改名称、图标或密码
+// 传 password 设置新密码，传 locked: false 移除密码，其余情况保留原密码
+export const onRequestPatch = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: changes, errors } = validateCategory(body, true);
+  if (errors) return validationErrorResponse(errors);
+
+  return mutateAppData(request, env, 'category.update', async data => {
+    const existing = data.categories.find(c => c.id === params.id);
+    if (!existing) return { error: 'Category not found', status: 404 };
+
+    const updated: Category = { ...existing };
+    if (changes.name) updated.name = changes.name;
+    if (changes.icon) updated.icon = changes.icon;
+    if (changes.password) {
+      updated.password = await hashPassword(changes.password);
+    } else if (changes.locked === false) {
+      delete updated.password;
+    }
+
+    return {
+      data: { ...data, categories: data.categories.map(c => c.id === existing.id ? updated : c) },
+      body: toClientCategory(updated),
+    };
+  });
+};
+
+// DELETE: 删除分类，其下链接移动到 ?moveTo= 指定的分类（默认 common）
+export const onRequestDelete = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+  const moveTo = new URL(request.url).searchParams.get('moveTo') || 'common';
+
+  return mutateAppData(request, env, 'category.delete', data => {
+    if (!data.categories.some(c => c.id === params.id)) return { error: 'Category not found', status: 404 };
+
+    const categories = data.categories.filter(c => c.id !== params.id);
+    if (categories.length === 0) categories.push(DEFAULT_CATEGORIES[0]);
+
+    const target = categories.find(c => c.id === moveTo) || categories.find(c => c.id === 'common') || categories[0];
+    const movedLinks = data.links.filter(l => l.categoryId === params.id).length;
+
+    return {
+      data: {
+        ...data,
+        categories,
+        links: data.links.map(l => l.categoryId === params.id ? { ...l, categoryId: target.id } : l),
+      },
+      body: { success: true, id: params.id, movedTo: target.id, movedLinks },
+    };
+  });
+};
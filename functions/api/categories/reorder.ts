@@ -0,0 +1,38 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { preflightResponse } from '../../_lib/http';
+import { toClientCategory } from '../../_lib/appData';
+import { mutateAppData } from '../../_lib/mutation';
+import { LIMITS, readJsonBody, validationErrorResponse } from '../../_lib/validation';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 按 { ids: [...] } 的顺序重新排列分类
+// 未知的 id 会被忽略，未列出的分类保持原有相对顺序排在最后
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const body = await readJsonBody(request) as { ids?: unknown } | Response;
+  if (body instanceof Response) return body;
+
+  const ids = body?.ids;
+  if (!Array.isArray(ids) || ids.length > LIMITS.categories || ids.some(id => typeof id !== 'string')) {
+    return validationErrorResponse([{ field: 'ids', message: `must be an array of at most ${LIMITS.categories} category ids` }]);
+  }
+
+  return mutateAppData(request, env, 'category.reorder', data => {
+    const rank = new Map(ids.map((id, index) => [id, index]));
+    const categories = [...data.categories].sort((a, b) =>
+      (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity)
+    );
+
+    return {
+      data: { ...data, categories },
+      body: { categories: categories.map(toClientCategory) },
+    };
+  });
+};
@@ -0,0 +1,36 @@
+import { Env } from '../_lib/env';
+import { corsHeaders, jsonResponse, preflightResponse } from '../_lib/http';
+import { resolveSpace } from '../_lib/spaces';
+import { getFavicon } from '../_lib/favicon';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: ?url= 返回该网站的图标（服务端获取并缓存），找不到时返回字母头像
+// 公开接口：链接卡片和分享页都直接用它作为 <img src>，图标按域名缓存，所有空间共用。
+// 因为无需登录，只会为 ?space= 所指空间中（未加锁分类下）已保存链接的域名去抓取图标，其他域名直接返回字母头像
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request, env } = context;
+  const url = new URL(request.url).searchParams.get('url');
+  if (!url) return jsonResponse({ error: 'Missing url' }, 400);
+  const spaceEnv = await resolveSpace(request, env, corsHeaders);
+  if (spaceEnv instanceof Response) return spaceEnv;
+
+  try {
+    const icon = await getFavicon(env, spaceEnv, url);
+    return new Response(icon.body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': icon.contentType,
+        // 未知域名的头像不缓存：链接保存后同一地址就能取到真正的图标
+        'Cache-Control': icon.unknownHost ? 'no-store' : `public, max-age=${icon.fallback ? 3600 : 86400}`,
+        // Icons come from other sites: never let an SVG run script on this origin
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to load icon' }, 500);
+  }
+};
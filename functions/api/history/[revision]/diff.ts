@@ -0,0 +1,42 @@
+import { Env } from '../../../_lib/env';
+import { resolveSpace } from '../../../_lib/spaces';
+import { authorize } from '../../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../../_lib/http';
+import { readAppData, toClientCategory } from '../../../_lib/appData';
+import { diffAppData, readRevision } from '../../../_lib/history';
+
+type Context = { request: Request; env: Env; params: { revision: string } };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 比较 ?against= 指定的版本（默认当前数据）到该历史版本的差异
+// 默认情况下结果即“恢复到该版本会发生的变化”
+export const onRequestGet = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const against = new URL(request.url).searchParams.get('against') || 'current';
+  const [target, base] = await Promise.all([
+    readRevision(env, Number(params.revision)),
+    against === 'current' ? readAppData(env) : readRevision(env, Number(against)),
+  ]);
+  if (!target || !base) {
+    return jsonResponse({ error: 'Revision not found' }, 404);
+  }
+
+  const diff = diffAppData(base, target);
+  return jsonResponse({
+    ...diff,
+    categories: {
+      added: diff.categories.added.map(toClientCategory),
+      removed: diff.categories.removed.map(toClientCategory),
+      updated: diff.categories.updated.map(({ before, after }) => ({ before: toClientCategory(before), after: toClientCategory(after) })),
+    },
+  });
+};
@@ -0,0 +1,28 @@
+import { Env } from '../../../_lib/env';
+import { resolveSpace } from '../../../_lib/spaces';
+import { authorize } from '../../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../../_lib/http';
+import { toClientView } from '../../../_lib/appData';
+import { readRevision } from '../../../_lib/history';
+
+type Context = { request: Request; env: Env; params: { revision: string } };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 获取某个历史版本的完整数据，用于恢复前预览
+export const onRequestGet = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const snapshot = await readRevision(env, Number(params.revision));
+  if (!snapshot) {
+    return jsonResponse({ error: 'Revision not found' }, 404);
+  }
+  return jsonResponse(toClientView(snapshot, true));
+};
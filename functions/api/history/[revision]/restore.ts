@@ -0,0 +1,34 @@
+import { Env } from '../../../_lib/env';
+import { resolveSpace } from '../../../_lib/spaces';
+import { preflightResponse } from '../../../_lib/http';
+import { getRevision, toClientView } from '../../../_lib/appData';
+import { readRevision } from '../../../_lib/history';
+import { mutateAppData } from '../../../_lib/mutation';
+
+type Context = { request: Request; env: Env; params: { revision: string } };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 回滚到某个历史版本
+// 回滚本身会生成一个新版本，因此可以再次撤销
+export const onRequestPost = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+  const revision = Number(params.revision);
+
+  return mutateAppData(request, env, 'history.restore', async stored => {
+    const snapshot = await readRevision(env, revision);
+    if (!snapshot) return { error: 'Revision not found', status: 404 };
+
+    const { revision: _, updatedAt, ...data } = snapshot;
+    const nextRevision = getRevision(stored) + 1;
+    return {
+      data,
+      body: { success: true, revision: nextRevision, data: toClientView({ ...data, revision: nextRevision }, true) },
+      restoredFrom: revision,
+    };
+  });
+};
@@ -0,0 +1,25 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { listRevisions } from '../../_lib/history';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 列出保存的历史版本（最新在前）
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  try {
+    return jsonResponse({ revisions: await listRevisions(env) });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to fetch history' }, 500);
+  }
+};
@@ -1,16 +1,36 @@
 
-interface Env {
-  CLOUDNAV_KV: any;
-  PASSWORD: string;
-}
+import { Env } from '../_lib/env';
+import { resolveSpace } from '../_lib/spaces';
+import { authorize, hasScope } from '../_lib/auth';
+import { readAppData, writeAppData } from '../_lib/appData';
+import { recordMutation } from '../_lib/audit';
+import { findLinkByUrl, normalizeUrl } from '../_lib/links';
+import { fetchPageMetadata, titleFromMetadata } from '../_lib/metadata';
+import { faviconPath } from '../_lib/favicon';
+import { SubrequestBudget } from '../_lib/outbound';
+import { LIMITS, readJsonBody, validateLink, validateLinkBatch, validationErrorResponse } from '../_lib/validation';
+import type { Category, LinkItem } from '../../types';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'POST, OPTIONS, GET',
-  'Access-Control-Allow-Headers': 'Content-Type, x-auth-password',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-auth-password, X-Audit-Reason',
   'Access-Control-Max-Age': '86400',
 };
 
+// Pages fetched per request for links sent without a title; the rest, and those past the
+// invocation's subrequest budget (redirects count), are named after their host
+const METADATA_FETCH_LIMIT = 20;
+
+type SaveStatus = 'created' | 'updated' | 'exists';
+
+interface SaveResult {
+  status: SaveStatus;
+  // Left out of 'exists' results the caller may not read
+  link?: LinkItem;
+  categoryName?: string;
+}
+
 export const onRequestOptions = async () => {
   return new Response(null, {
     status: 204,
@@ -18,102 +38,159 @@ export const onRequestOptions = async () => {
   });
 };
 
+// 未指定分类（或指定的分类不存在）时放入的分类：优先“收集/未分类”类分类，其次 common，最后第一个分类
+const pickDefaultCategory = (categories: Category[]): { id: string; name: string } => {
+    if (!categories || categories.length === 0) {
+        // No categories exist at all
+        return { id: 'common', name: '默认' };
+    }
+
+    // Try to find specific keywords
+    const keywords = ['收集', '未分类', 'inbox', 'temp', 'later'];
+    const match = categories.find(c => keywords.some(k => c.name.toLowerCase().includes(k)));
+    if (match) return match;
+
+    // Fallback to 'common' if exists, else first category
+    return categories.find(c => c.id === 'common') || categories[0];
+};
+
+// POST: 新增链接。URL 会先规范化再判重：
+// - 默认：已存在时返回 409；调用方有 read 权限且该链接不在加锁分类中（或是管理员）时附上已有的链接和分类名
+// - ?mode=upsert：已存在时用提交的字段更新该链接（需要管理权限）
+// 请求体也可以是数组，用于批量添加（如一次保存所有标签页），逐条返回结果，不会整体返回 409
+// 未提供标题时抓取网页补全标题、描述和图标
 export const onRequestPost = async (context: { request: Request; env: Env }) => {
-  const { request, env } = context;
+  const { request } = context;
+  const env = await resolveSpace(request, context.env, corsHeaders);
+  if (env instanceof Response) return env;
 
   // 1. Auth Check
-  const providedPassword = request.headers.get('x-auth-password');
-  const serverPassword = env.PASSWORD;
-
-  if (!serverPassword || providedPassword !== serverPassword) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401,
+  const auth = await authorize(request, env, corsHeaders, 'link:add');
+  if (auth instanceof Response) return auth;
+
+  // Updating an existing link is more than a link:add token may do
+  const upsert = new URL(request.url).searchParams.get('mode') === 'upsert';
+  if (upsert && !hasScope(auth, 'admin')) {
+    return new Response(JSON.stringify({ error: 'Forbidden', scope: 'admin' }), {
+      status: 403,
       headers: { 'Content-Type': 'application/json', ...corsHeaders },
     });
   }
 
   try {
-    const newLinkData = await request.json() as any;
-    
+    const body = await readJsonBody(request, corsHeaders);
+    if (body instanceof Response) return body;
+
     // Validate input
-    if (!newLinkData.title || !newLinkData.url) {
-        return new Response(JSON.stringify({ error: 'Missing title or url' }), { status: 400, headers: corsHeaders });
-    }
+    const batch = Array.isArray(body);
+    const { value: inputs, errors } = batch ? validateLinkBatch(body) : validateLink(body, 'create');
+    if (errors) return validationErrorResponse(errors, corsHeaders);
+
+    // 2. Fill in missing titles (and description / icon) from the page itself. This happens
+    // before the stored data is read for the write below, so no slow outbound request sits
+    // between that read and the write and saves made meanwhile are not overwritten
+    const inputList = Array.isArray(inputs) ? inputs : [inputs];
+    const known = await readAppData(env);
+    let fetches = 0;
+    const budget = new SubrequestBudget();
+    const items = await Promise.all(inputList.map(async item => {
+        // Upserts keep the stored title, so only new links need one
+        if (item.title || findLinkByUrl(known.links, item.url!)) return item;
+        const metadata = fetches++ < METADATA_FETCH_LIMIT ? await fetchPageMetadata(item.url!, budget).catch(() => null) : null;
+        return {
+            ...item,
+            title: titleFromMetadata(metadata, item.url!).slice(0, LIMITS.title),
+            description: item.description || metadata?.description?.slice(0, LIMITS.description),
+            // The site's own icon URL would be hotlinked by every visitor; cards go through the proxy instead
+            icon: item.icon || (metadata?.icon ? faviconPath(env, item.url!) : undefined),
+        };
+    }));
+
+    // 3. Fetch current data from storage; from here to the write nothing waits on the network
+    const currentData = await readAppData(env);
+    const fallback = pickDefaultCategory(currentData.categories);
+    let links = currentData.links;
+    const usedIds = new Set(links.map(l => l.id));
+    const now = Date.now();
+
+    // A link:add token learns that a URL is saved, but not what is stored under it
+    const canRead = (category?: Category) => hasScope(auth, 'admin') || (hasScope(auth, 'read') && !category?.password);
+
+    const results: SaveResult[] = items.map((newLinkData, index) => {
+        // 4. Determine Category (explicit categoryId wins when it exists)
+        const explicitCat = newLinkData.categoryId
+            ? currentData.categories.find(c => c.id === newLinkData.categoryId)
+            : undefined;
+        const target = explicitCat || fallback;
+        const url = normalizeUrl(newLinkData.url!);
+
+        // 5. Duplicate check against stored links and earlier items of this batch
+        const existing = findLinkByUrl(links, url);
+        if (existing) {
+            const existingCat = currentData.categories.find(c => c.id === existing.categoryId);
+            if (!upsert) {
+                return canRead(existingCat) ? { status: 'exists', link: existing, categoryName: existingCat?.name || '' } : { status: 'exists' };
+            }
 
-    // 2. Fetch current data from KV
-    const currentDataStr = await env.CLOUDNAV_KV.get('app_data');
-    let currentData = { links: [], categories: [] };
-    
-    if (currentDataStr) {
-        currentData = JSON.parse(currentDataStr);
-    }
+            // Only what the caller sent: fetched metadata never replaces stored fields
+            const input = inputList[index];
+            const updated: LinkItem = {
+                ...existing,
+                title: input.title || existing.title,
+                description: input.description ?? existing.description,
+                icon: input.icon || existing.icon,
+                categoryId: explicitCat ? explicitCat.id : existing.categoryId,
+                pinned: newLinkData.pinned ?? existing.pinned,
+            };
+            links = links.map(l => l.id === existing.id ? updated : l);
+            return { status: 'updated', link: updated, categoryName: (explicitCat || existingCat)?.name || '' };
+        }
 
-    // 3. Determine Category
-    let targetCatId = '';
-    let targetCatName = '';
+        // 6. Create new link object (ids stay unique within one batch)
+        let id = now;
+        while (usedIds.has(id.toString())) id++;
+        usedIds.add(id.toString());
+
+        const newLink: LinkItem = {
+            id: id.toString(),
+            title: newLinkData.title || titleFromMetadata(null, url),
+            url,
+            description: newLinkData.description || '',
+            categoryId: target.id,
+            createdAt: now,
+            pinned: newLinkData.pinned || false,
+            icon: newLinkData.icon || undefined // 允许保存传入的 icon
+        };
+        links = [newLink, ...links];
+        return { status: 'created', link: newLink, categoryName: target.name };
+    });
 
-    // 3a. Check for explicit categoryId from request
-    if (newLinkData.categoryId) {
-        const explicitCat = currentData.categories.find((c: any) => c.id === newLinkData.categoryId);
-        if (explicitCat) {
-            targetCatId = explicitCat.id;
-            targetCatName = explicitCat.name;
-        }
+    // 7. Save back to storage (bumps the revision so open web clients merge instead of overwriting)
+    if (results.some(r => r.status !== 'exists')) {
+        const saved = await writeAppData(env, { ...currentData, links }, currentData);
+        const action = results.some(r => r.status === 'created') ? 'link.create' : 'link.update';
+        await recordMutation(env, request, auth, action, currentData, saved);
     }
 
-    // 3b. Fallback: Auto-detect if no explicit category or explicit one not found
-    if (!targetCatId) {
-        if (currentData.categories && currentData.categories.length > 0) {
-            // Try to find specific keywords
-            const keywords = ['收集', '未分类', 'inbox', 'temp', 'later'];
-            const match = currentData.categories.find((c: any) => 
-                keywords.some(k => c.name.toLowerCase().includes(k))
-            );
-
-            if (match) {
-                targetCatId = match.id;
-                targetCatName = match.name;
-            } else {
-                // Fallback to 'common' if exists, else first category
-                const common = currentData.categories.find((c: any) => c.id === 'common');
-                if (common) {
-                    targetCatId = 'common';
-                    targetCatName = common.name;
-                } else {
-                    targetCatId = currentData.categories[0].id;
-                    targetCatName = currentData.categories[0].name;
-                }
-            }
-        } else {
-            // No categories exist at all
-            targetCatId = 'common';
-            targetCatName = '默认';
-        }
+    if (batch) {
+        return new Response(JSON.stringify({ success: true, results }), {
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        });
+    }
+
+    const [{ status, link, categoryName }] = results;
+    if (status === 'exists') {
+        return new Response(JSON.stringify({ error: 'Link already exists', ...(link ? { link, categoryName } : {}) }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        });
     }
 
-    // 4. Create new link object
-    const newLink = {
-        id: Date.now().toString(),
-        title: newLinkData.title,
-        url: newLinkData.url,
-        description: newLinkData.description || '',
-        categoryId: targetCatId, 
-        createdAt: Date.now(),
-        pinned: false,
-        icon: newLinkData.icon || undefined // 允许保存传入的 icon
-    };
-
-    // 5. Append
-    // @ts-ignore
-    currentData.links = [newLink, ...(currentData.links || [])];
-
-    // 6. Save back to KV
-    await env.CLOUDNAV_KV.put('app_data', JSON.stringify(currentData));
-
-    return new Response(JSON.stringify({ 
-        success: true, 
-        link: newLink,
-        categoryName: targetCatName 
+    return new Response(JSON.stringify({
+        success: true,
+        link,
+        categoryName,
+        updated: status === 'updated'
     }), {
       headers: { 'Content-Type': 'application/json', ...corsHeaders },
     });
@@ -0,0 +1,92 @@
+import type { LinkItem } from '../../../types';
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authenticate, hasScope } from '../../_lib/auth';
+import { verifyToken } from '../../_lib/crypto';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { getRevision, readAppData, revisionEtag } from '../../_lib/appData';
+import { mutateAppData } from '../../_lib/mutation';
+import { readJsonBody, validateLink, validationErrorResponse } from '../../_lib/validation';
+
+type Context = { request: Request; env: Env; params: { id: string } };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 获取单个链接
+// 加密分类下的链接仅对管理员（或有 read 权限的令牌）及持有该分类 x-category-grant 的访客可见
+export const onRequestGet = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  try {
+    const data = await readAppData(env);
+    const link = data.links.find(l => l.id === params.id);
+    const category = link && data.categories.find(c => c.id === link.categoryId);
+
+    const auth = link && category?.password ? await authenticate(request, env) : null;
+    if (link && category?.password && !(auth && hasScope(auth, 'read'))) {
+      const grant = await verifyToken(env, request.headers.get('x-category-grant'), 'category');
+      if (!grant || grant.cid !== category.id) {
+        return jsonResponse({ error: 'Link not found' }, 404);
+      }
+    }
+
+    if (!link) {
+      return jsonResponse({ error: 'Link not found' }, 404);
+    }
+    return jsonResponse(link, 200, { ETag: revisionEtag(getRevision(data)) });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to fetch data' }, 500);
+  }
+};
+
+// PATCH: 修改链接的部分字段，返回修改后的 LinkItem
+export const onRequestPatch = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  // id 和 createdAt 由服务端维护，不会被修改
+  const { value: changes, errors } = validateLink(body, 'patch');
+  if (errors) return validationErrorResponse(errors);
+
+  return mutateAppData(request, env, 'link.update', data => {
+    const existing = data.links.find(l => l.id === params.id);
+    if (!existing) return { error: 'Link not found', status: 404 };
+
+    if (changes.categoryId && !data.categories.some(c => c.id === changes.categoryId)) {
+      return { error: 'Category not found', status: 400 };
+    }
+
+    const updated: LinkItem = { ...existing, ...changes };
+    // 换了地址，之前的检测结果不再适用
+    if (changes.url && changes.url !== existing.url) delete updated.health;
+
+    return {
+      data: { ...data, links: data.links.map(l => l.id === existing.id ? updated : l) },
+      body: updated,
+    };
+  });
+};
+
+// DELETE: 删除链接
+export const onRequestDelete = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  return mutateAppData(request, env, 'link.delete', data => {
+    if (!data.links.some(l => l.id === params.id)) return { error: 'Link not found', status: 404 };
+
+    return {
+      data: { ...data, links: data.links.filter(l => l.id !== params.id) },
+      body: { success: true, id: params.id },
+    };
+  });
+};
@@ -0,0 +1,70 @@
+import type { LinkHealth } from '../../../types';
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { readAppData } from '../../_lib/appData';
+import { checkLink, MAX_CHECK_SUBREQUESTS, recordHealth } from '../../_lib/linkHealth';
+import { SubrequestBudget } from '../../_lib/outbound';
+import { readJsonBody, validationErrorResponse } from '../../_lib/validation';
+
+// 每次请求最多检测的链接数，更多的链接由客户端分批提交
+const CHECK_BATCH_LIMIT = 20;
+// 每个并发检测预留 MAX_CHECK_SUBREQUESTS 个子请求，4 × 12 不超过单次调用的 50 个
+const CHECK_CONCURRENCY = 4;
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 检测 { ids: [...] } 中链接的可访问性（HEAD，必要时改用 GET，跟随重定向）
+// 结果记录在各链接的 health 字段上，并返回 { results: [{ id, health }], unchecked: [id] }；未知的 id 会被忽略。
+// 每个链接最多要发出 12 个请求（HEAD 与 GET 各跟随 5 次重定向），检测前先从本次调用的子请求额度中预留；
+// 额度不够的链接不会被误判为失效，而是放进 unchecked，由客户端在下一批重新提交
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request) as { ids?: unknown } | Response;
+  if (body instanceof Response) return body;
+
+  const ids = body?.ids;
+  if (!Array.isArray(ids) || ids.length > CHECK_BATCH_LIMIT || ids.some(id => typeof id !== 'string')) {
+    return validationErrorResponse([{ field: 'ids', message: `must be an array of at most ${CHECK_BATCH_LIMIT} link ids` }]);
+  }
+
+  try {
+    const data = await readAppData(env);
+    const wanted = new Set(ids);
+    const queue = data.links.filter(l => wanted.has(l.id));
+    const results: { id: string; url: string; health: LinkHealth }[] = [];
+    const unchecked: string[] = [];
+    const budget = new SubrequestBudget();
+
+    const worker = async () => {
+      for (let link = queue.shift(); link; link = queue.shift()) {
+        const reserved = budget.reserve(MAX_CHECK_SUBREQUESTS);
+        // 额度被其他进行中的检测占着：把链接留给归还额度后的其他 worker
+        if (!reserved) {
+          queue.unshift(link);
+          return;
+        }
+        const health = await checkLink(link.url, reserved);
+        budget.release(reserved);
+        if (health) results.push({ id: link.id, url: link.url, health });
+        else unchecked.push(link.id);
+      }
+    };
+    await Promise.all(Array.from({ length: CHECK_CONCURRENCY }, worker));
+    unchecked.push(...queue.map(link => link.id));
+
+    await recordHealth(env, results);
+    return jsonResponse({ results: results.map(({ id, health }) => ({ id, health })), unchecked });
+  } catch (err: any) {
+    return jsonResponse({ error: err.message || 'Failed to check links' }, 500);
+  }
+};
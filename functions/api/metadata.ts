@@ -0,0 +1,34 @@
+import { Env } from '../_lib/env';
+import { resolveSpace } from '../_lib/spaces';
+import { authorize } from '../_lib/auth';
+import { jsonResponse, preflightResponse } from '../_lib/http';
+import { fetchPageMetadata } from '../_lib/metadata';
+import { OutboundError, toPublicUrl } from '../_lib/outbound';
+import { validationErrorResponse } from '../_lib/validation';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: ?url= 抓取网页，返回标题、描述、Open Graph 信息、规范地址和图标，用于添加链接时自动填充
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  // 扩展令牌（link:add）也可以调用
+  const auth = await authorize(request, env, {}, 'link:add');
+  if (auth instanceof Response) return auth;
+
+  const url = new URL(request.url).searchParams.get('url');
+  if (!toPublicUrl(url)) {
+    return validationErrorResponse([{ field: 'url', message: 'must be a public http(s) URL' }]);
+  }
+
+  try {
+    return jsonResponse(await fetchPageMetadata(url!), 200, { 'Cache-Control': 'private, max-age=3600' });
+  } catch (err) {
+    if (err instanceof OutboundError) return jsonResponse({ error: `Failed to fetch page: ${err.message}` }, 502);
+    return jsonResponse({ error: 'Failed to fetch page' }, 500);
+  }
+};
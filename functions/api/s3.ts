@@ -0,0 +1,67 @@
+import { Env } from '../_lib/env';
+import { resolveSpace } from '../_lib/spaces';
+import { authorize } from '../_lib/auth';
+import { jsonResponse, preflightResponse } from '../_lib/http';
+import { getS3Target } from '../_lib/s3Config';
+import { backupToS3, checkS3, downloadS3, listS3, S3Error, S3Target } from '../_lib/s3';
+import { backupTime } from '../_lib/webdav';
+import { readJsonBody, validateBackupRequest, validationErrorResponse } from '../_lib/validation';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// 未指定文件名时下载最新的备份；只接受本应用写入的文件名，避免读取桶内其他对象
+const pickBackup = async (target: S3Target, filename?: string): Promise<string> => {
+  if (filename) {
+    if (backupTime(filename) === undefined) throw new S3Error('Invalid backup file name', 400);
+    return filename;
+  }
+  const [latest] = await listS3(target);
+  if (!latest) throw new S3Error('Backup file not found', 404);
+  return latest.name;
+};
+
+// POST: S3 兼容存储的备份操作，使用服务端保存的配置（需要登录），operation 与 /api/webdav 相同：
+//   check: 测试连接；upload: 上传为带时间戳的新备份并按保留策略清理旧备份，返回 { success, filename, pruned }；
+//   list: 列出 prefix 下的备份 { files: [{ name, createdAt, size }] }（最新在前）；download: 下载 filename 指定的备份，默认最新
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+  const { value: input, errors } = validateBackupRequest(body);
+  if (errors) return validationErrorResponse(errors);
+  const { operation, payload, filename } = input;
+
+  try {
+    const stored = await getS3Target(env);
+    if (!stored) return jsonResponse({ error: 'Missing configuration' }, 400);
+    const { target, retention } = stored;
+
+    if (operation === 'download') {
+      return jsonResponse(await downloadS3(target, await pickBackup(target, filename)));
+    }
+    if (operation === 'list') {
+      return jsonResponse({ files: await listS3(target) });
+    }
+    if (operation === 'upload') {
+      return jsonResponse({ success: true, ...await backupToS3(target, payload, retention) });
+    }
+
+    return jsonResponse({ success: true, status: await checkS3(target) });
+  } catch (err: any) {
+    if (err instanceof S3Error && err.status) {
+      // 与 WebDAV 代理一致：检查和上传失败时返回 success: false，列出和下载失败时沿用存储服务的状态码
+      return operation === 'download' || operation === 'list'
+        ? jsonResponse({ error: err.message }, err.status)
+        : jsonResponse({ success: false, status: err.status, error: err.message });
+    }
+    return jsonResponse({ error: err.message }, 500);
+  }
+};
@@ -0,0 +1,74 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { recordEvent } from '../../_lib/audit';
+import { deleteS3Config, getS3Config, saveS3Config } from '../../_lib/s3Config';
+import { readJsonBody, validateS3Config, validationErrorResponse } from '../../_lib/validation';
+
+type Context = { request: Request; env: Env };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 服务端保存的 S3 配置（不含 Secret Key）
+export const onRequestGet = async (context: Context) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  try {
+    return jsonResponse({ config: await getS3Config(env) });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to load S3 config' }, 500);
+  }
+};
+
+// POST: 保存 S3 配置（endpoint、region、bucket、prefix、pathStyle、accessKeyId 和保留策略）；Secret Key 加密后保存，不传时沿用已保存的
+export const onRequestPost = async (context: Context) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: input, errors } = validateS3Config(body);
+  if (errors) return validationErrorResponse(errors);
+
+  try {
+    if (!await saveS3Config(env, input)) {
+      return validationErrorResponse([{ field: 'secretAccessKey', message: 'is required' }]);
+    }
+    await recordEvent(env, request, auth, 'backup.save', { type: 's3', change: 'updated', label: input.bucket });
+    return jsonResponse({ config: await getS3Config(env) });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to save S3 config' }, 500);
+  }
+};
+
+// DELETE: 删除服务端保存的 S3 配置
+export const onRequestDelete = async (context: Context) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  try {
+    const previous = await getS3Config(env);
+    await deleteS3Config(env);
+    if (previous) await recordEvent(env, request, auth, 'backup.delete', { type: 's3', change: 'removed', label: previous.bucket });
+    return jsonResponse({ success: true });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to delete S3 config' }, 500);
+  }
+};
@@ -0,0 +1,60 @@
+import type { SharedCategory } from '../../../types';
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { readAppData, toClientCategory } from '../../_lib/appData';
+import { recordEvent } from '../../_lib/audit';
+import { findShare, revokeShare } from '../../_lib/shares';
+
+type Context = { request: Request; env: Env; params: { token: string } };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 公开接口，凭分享令牌只读获取该分类及其链接
+// 分享由管理员主动创建，因此加密分类也会返回链接；过期、吊销或分类已删除时返回 404
+export const onRequestGet = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const share = await findShare(env, params.token);
+  if (!share) {
+    return jsonResponse({ error: 'Share not found' }, 404);
+  }
+
+  const data = await readAppData(env);
+  const category = data.categories.find(c => c.id === share.categoryId);
+  if (!category) {
+    return jsonResponse({ error: 'Share not found' }, 404);
+  }
+
+  const { locked, ...publicCategory } = toClientCategory(category);
+  const view: SharedCategory = {
+    category: publicCategory,
+    links: data.links.filter(l => l.categoryId === category.id),
+    siteTitle: data.settings?.navTitle,
+    expiresAt: share.expiresAt,
+  };
+  return jsonResponse(view, 200, { 'Cache-Control': 'no-store' });
+};
+
+// DELETE: 吊销分享链接
+export const onRequestDelete = async (context: Context) => {
+  const { request, params } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const share = await findShare(env, params.token);
+  if (!share || !await revokeShare(env, params.token)) {
+    return jsonResponse({ error: 'Share not found' }, 404);
+  }
+  const category = (await readAppData(env)).categories.find(c => c.id === share.categoryId);
+  await recordEvent(env, request, auth, 'share.revoke', { type: 'share', change: 'removed', id: share.categoryId, label: share.label || category?.name });
+  return jsonResponse({ success: true });
+};
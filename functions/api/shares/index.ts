@@ -0,0 +1,53 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { readAppData } from '../../_lib/appData';
+import { recordEvent } from '../../_lib/audit';
+import { createShare, listShares } from '../../_lib/shares';
+import { readJsonBody, validateShare, validationErrorResponse } from '../../_lib/validation';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 列出分类分享链接，可用 ?categoryId= 过滤
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const categoryId = new URL(request.url).searchParams.get('categoryId');
+  const shares = await listShares(env);
+  return jsonResponse({ shares: categoryId ? shares.filter(s => s.categoryId === categoryId) : shares });
+};
+
+// POST: 为分类生成只读分享令牌，expiresAt 为空表示永不过期
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: input, errors } = validateShare(body);
+  if (errors) return validationErrorResponse(errors);
+
+  const data = await readAppData(env);
+  const category = data.categories.find(c => c.id === input.categoryId);
+  if (!category) {
+    return jsonResponse({ error: 'Category not found' }, 404);
+  }
+
+  const share = await createShare(env, input.categoryId, input.expiresAt, input.label);
+  // 分享令牌本身就是访问凭据，不写进操作记录
+  await recordEvent(env, request, auth, 'share.create', { type: 'share', change: 'added', id: category.id, label: input.label || category.name });
+  return jsonResponse(share, 201);
+};
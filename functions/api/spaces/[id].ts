@@ -0,0 +1,64 @@
+import { Env } from '../../_lib/env';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { hashPassword } from '../../_lib/password';
+import { recordEvent } from '../../_lib/audit';
+import { revokeAllSessions } from '../../_lib/sessions';
+import { deleteSpaceData, listSpaces, saveSpaces, spaceEnv, toSpaceInfo } from '../../_lib/spaces';
+import { readJsonBody, validateSpace, validationErrorResponse } from '../../_lib/validation';
+
+type Context = { request: Request; env: Env; params: { id: string } };
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// PATCH: 修改名称或重置密码；重置密码会让该空间已登录的设备全部失效
+export const onRequestPatch = async (context: Context) => {
+  const { request, env, params } = context;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: input, errors } = validateSpace(body, true);
+  if (errors) return validationErrorResponse(errors);
+
+  const spaces = await listSpaces(env);
+  const space = spaces.find(s => s.id === params.id);
+  if (!space) {
+    return jsonResponse({ error: 'Space not found' }, 404);
+  }
+
+  const updated = {
+    ...space,
+    name: input.name ?? space.name,
+    password: input.password ? await hashPassword(input.password) : space.password,
+  };
+  await saveSpaces(env, spaces.map(s => s.id === space.id ? updated : s));
+  if (input.password) await revokeAllSessions(spaceEnv(env, space));
+  await recordEvent(env, request, auth, 'space.update', { type: 'space', change: 'updated', id: space.id, label: updated.name });
+
+  return jsonResponse(toSpaceInfo(updated));
+};
+
+// DELETE: 删除空间及其全部数据（链接、历史版本、登录设备）
+export const onRequestDelete = async (context: Context) => {
+  const { request, env, params } = context;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const spaces = await listSpaces(env);
+  const space = spaces.find(s => s.id === params.id);
+  if (!space) {
+    return jsonResponse({ error: 'Space not found' }, 404);
+  }
+
+  await saveSpaces(env, spaces.filter(s => s.id !== params.id));
+  await deleteSpaceData(env, params.id);
+  await recordEvent(env, request, auth, 'space.delete', { type: 'space', change: 'removed', id: space.id, label: space.name });
+  return jsonResponse({ success: true, id: params.id });
+};
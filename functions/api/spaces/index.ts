@@ -0,0 +1,48 @@
+import { Env } from '../../_lib/env';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { hashPassword } from '../../_lib/password';
+import { recordEvent } from '../../_lib/audit';
+import { listSpaces, saveSpaces, SpaceRecord, toSpaceInfo } from '../../_lib/spaces';
+import { readJsonBody, validateSpace, validationErrorResponse } from '../../_lib/validation';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 列出所有空间（与导航数据一样公开可读，不含密码）
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { env } = context;
+
+  const spaces = await listSpaces(env);
+  return jsonResponse({ spaces: spaces.map(toSpaceInfo) });
+};
+
+// POST: 新建空间，仅默认空间的管理员可操作
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request, env } = context;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: input, errors } = validateSpace(body);
+  if (errors) return validationErrorResponse(errors);
+
+  const spaces = await listSpaces(env);
+  if (spaces.some(s => s.id === input.id)) {
+    return jsonResponse({ error: 'Space already exists' }, 409);
+  }
+
+  const space: SpaceRecord = {
+    id: input.id!,
+    name: input.name!,
+    createdAt: Date.now(),
+    password: await hashPassword(input.password!),
+  };
+  await saveSpaces(env, [...spaces, space]);
+  await recordEvent(env, request, auth, 'space.create', { type: 'space', change: 'added', id: space.id, label: space.name });
+  return jsonResponse(toSpaceInfo(space), 201);
+};
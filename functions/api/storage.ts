@@ -1,83 +1,62 @@
-interface Env {
-  CLOUDNAV_KV: any;
-  PASSWORD: string;
-}
-
-// 统一的响应头
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, x-auth-password',
-};
+import { Env } from '../_lib/env';
+import { resolveSpace } from '../_lib/spaces';
+import { authorize, hasCredential, hasScope } from '../_lib/auth';
+import { jsonResponse, preflightResponse } from '../_lib/http';
+import { mutateAppData } from '../_lib/mutation';
+import { keepLinkHealth } from '../_lib/linkHealth';
+import { readJsonBody, validateAppData, validationErrorResponse } from '../_lib/validation';
+import { applyCategoryPasswords, getRevision, locksWithoutPassword, readAppData, revisionEtag, toClientView } from '../_lib/appData';
 
 // 处理 OPTIONS 请求（解决跨域预检）
 export const onRequestOptions = async () => {
-  return new Response(null, {
-    status: 204,
-    headers: corsHeaders,
-  });
+  return preflightResponse();
 };
 
 // GET: 获取数据
-export const onRequestGet = async (context: { env: Env }) => {
-  try {
-    const { env } = context;
-    // 从 KV 中读取数据
-    const data = await env.CLOUDNAV_KV.get('app_data');
-    
-    if (!data) {
-      // 如果没有数据，返回空结构
-      return new Response(JSON.stringify({ links: [], categories: [] }), {
-        headers: { 'Content-Type': 'application/json', ...corsHeaders },
-      });
-    }
+// 未登录（或令牌没有 read 权限）时隐藏加密分类下的链接；任何情况下都不返回分类密码
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
 
-    return new Response(data, {
-      headers: { 'Content-Type': 'application/json', ...corsHeaders },
-    });
+  const auth = hasCredential(request) ? await authorize(request, env, {}, null) : null;
+  if (auth instanceof Response) return auth;
+  const canReadLocked = !!auth && hasScope(auth, 'read');
+
+  try {
+    const data = await readAppData(env);
+    return jsonResponse(toClientView(data, canReadLocked), 200, { ETag: revisionEtag(getRevision(data)) });
   } catch (err) {
-    return new Response(JSON.stringify({ error: 'Failed to fetch data' }), {
-      status: 500,
-      headers: corsHeaders,
-    });
+    return jsonResponse({ error: 'Failed to fetch data' }, 500);
   }
 };
 
 // POST: 保存数据
+// 带 If-Match 时仅在版本一致时写入，否则返回 409 和最新数据供客户端合并
 export const onRequestPost = async (context: { request: Request; env: Env }) => {
-  const { request, env } = context;
-
-  // 1. 验证密码
-  const providedPassword = request.headers.get('x-auth-password');
-  const serverPassword = env.PASSWORD;
-
-  if (!serverPassword) {
-    return new Response(JSON.stringify({ error: 'Server misconfigured: PASSWORD not set' }), { 
-        status: 500,
-        headers: { 'Content-Type': 'application/json', ...corsHeaders },
-    });
-  }
-
-  if (providedPassword !== serverPassword) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401,
-      headers: { 'Content-Type': 'application/json', ...corsHeaders },
-    });
-  }
-
-  // 2. 保存数据
-  try {
-    const body = await request.json();
-    // 将数据写入 KV
-    await env.CLOUDNAV_KV.put('app_data', JSON.stringify(body));
-
-    return new Response(JSON.stringify({ success: true }), {
-      headers: { 'Content-Type': 'application/json', ...corsHeaders },
-    });
-  } catch (err) {
-    return new Response(JSON.stringify({ error: 'Failed to save data' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json', ...corsHeaders },
-    });
-  }
-};
\ No newline at end of file
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  // 只保留已知字段；revision 等由服务端维护
+  const { value: incoming, errors } = validateAppData(body);
+  if (errors) return validationErrorResponse(errors);
+
+  return mutateAppData(request, env, 'storage.replace', async stored => {
+    // 带锁但服务端没有密码的分类（如在别处恢复的备份）不能静默解锁，需要客户端为它们设置新密码
+    const orphaned = locksWithoutPassword(incoming.categories, stored.categories);
+    if (orphaned.length > 0) {
+      return { error: `Locked categories need a new password: ${orphaned.map(c => c.name).join(', ')}`, status: 400 };
+    }
+    // 客户端不持有已存储的分类密码和链接检测结果，需要在服务端合并回去
+    const data = {
+      ...incoming,
+      links: keepLinkHealth(incoming.links, stored.links),
+      categories: await applyCategoryPasswords(incoming.categories, stored.categories),
+    };
+    return { data, body: { success: true, revision: getRevision(stored) + 1 } };
+  });
+};
@@ -0,0 +1,76 @@
+import { Env } from '../_lib/env';
+import { resolveSpace } from '../_lib/spaces';
+import { signToken, verifyToken } from '../_lib/crypto';
+import { jsonResponse, preflightResponse } from '../_lib/http';
+import { readAppData } from '../_lib/appData';
+import { verifyPassword } from '../_lib/password';
+import { getRetryAfter, recordFailure, throttledResponse } from '../_lib/rateLimit';
+
+// Grants only open a single category and expire after 30 minutes
+const GRANT_TYPE = 'category';
+const GRANT_TTL_MS = 30 * 60 * 1000;
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 校验分类密码，签发限定分类、会过期的访问凭证
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  // 与管理密码共用同一套失败计数
+  const retryAfter = await getRetryAfter(env, request);
+  if (retryAfter > 0) {
+    return throttledResponse(retryAfter);
+  }
+
+  try {
+    const { categoryId, password } = await request.json() as { categoryId?: string; password?: string };
+    if (!categoryId || !password) {
+      return jsonResponse({ error: 'Missing categoryId or password' }, 400);
+    }
+
+    const data = await readAppData(env);
+    const category = data.categories.find(c => c.id === categoryId);
+    if (!category) {
+      return jsonResponse({ error: 'Category not found' }, 404);
+    }
+    if (!category.password) {
+      return jsonResponse({ error: 'Category is not locked' }, 400);
+    }
+    if (!(await verifyPassword(password, category.password))) {
+      await recordFailure(env, request, 'category', category.name);
+      return jsonResponse({ error: 'Invalid password' }, 401);
+    }
+
+    const expiresAt = Date.now() + GRANT_TTL_MS;
+    const grant = await signToken(env, { typ: GRANT_TYPE, cid: categoryId, exp: expiresAt });
+
+    return jsonResponse({ grant, expiresAt });
+  } catch (err: any) {
+    return jsonResponse({ error: err.message }, 500);
+  }
+};
+
+// GET: 凭 x-category-grant 获取该分类下的链接
+export const onRequestGet = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const categoryId = new URL(request.url).searchParams.get('categoryId');
+  const payload = await verifyToken(env, request.headers.get('x-category-grant'), GRANT_TYPE);
+
+  if (!categoryId || !payload || payload.cid !== categoryId) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const data = await readAppData(env);
+    return jsonResponse({ links: data.links.filter(l => l.categoryId === categoryId) });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to fetch data' }, 500);
+  }
+};
@@ -1,87 +1,87 @@
+import { Env } from '../_lib/env';
+import { resolveSpace } from '../_lib/spaces';
+import { authorize } from '../_lib/auth';
+import { jsonResponse, preflightResponse } from '../_lib/http';
+import { checkPublicUrl } from '../_lib/outbound';
+import { readJsonBody, validateWebDavRequest, validationErrorResponse, WebDavRequestInput } from '../_lib/validation';
+import { getWebDavRetention, getWebDavTarget } from '../_lib/backupSchedule';
+import {
+  backupToWebDav, checkWebDav, DEFAULT_RETENTION, downloadWebDav, isBackupFilename, listWebDav, WebDavError, WebDavTarget,
+} from '../_lib/webdav';
 
-export const onRequestPost = async (context: { request: Request }) => {
-  const { request } = context;
-  
-  try {
-    const body = await request.json() as any;
-    const { operation, config, payload } = body;
-    
-    if (!config || !config.url || !config.username || !config.password) {
-        return new Response(JSON.stringify({ error: 'Missing configuration' }), { status: 400 });
-    }
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
 
-    // 1. URL 处理：确保目录以 / 结尾
-    let baseUrl = config.url.trim();
-    if (!baseUrl.endsWith('/')) baseUrl += '/';
-    
-    // 文件名固定
-    const filename = 'cloudnav_backup.json';
-    const fileUrl = baseUrl + filename;
+// 所有操作都需要登录。请求中的 url / username 可以覆盖已保存的值（方便保存前测试连接），
+// 但已保存的密码只会发往原样保存的地址和用户名，改了任何一项都要在请求里重新提供密码
+const resolveTarget = async (request: Request, env: Env, config?: WebDavRequestInput['config']) => {
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
 
-    // 2. 构建认证 Header (Cloudflare Worker 环境支持 btoa)
-    const authHeader = `Basic ${btoa(`${config.username}:${config.password}`)}`;
-    
-    let fetchUrl = baseUrl;
-    let method = 'PROPFIND';
-    let headers: Record<string, string> = {
-        'Authorization': authHeader,
-        'User-Agent': 'CloudNav/1.0'
-    };
-    let requestBody = undefined;
+  const stored = await getWebDavTarget(env);
+  const url = config?.url || stored?.url;
+  const username = config?.username || stored?.username;
+  const unchanged = !!stored && url === stored.url && username === stored.username;
+  const password = config?.password || (unchanged ? stored.password : undefined);
+  if (!url || !username || !password) return jsonResponse({ error: 'Missing configuration' }, 400);
 
-    // 3. 根据操作类型构建请求
-    if (operation === 'check') {
-        // PROPFIND 检查连接
-        fetchUrl = baseUrl;
-        method = 'PROPFIND';
-        headers['Depth'] = '0'; // 仅检查根目录存在性
-    } else if (operation === 'upload') {
-        // PUT 上传文件
-        fetchUrl = fileUrl;
-        method = 'PUT';
-        headers['Content-Type'] = 'application/json';
-        requestBody = JSON.stringify(payload); 
-    } else if (operation === 'download') {
-        // GET 下载文件
-        fetchUrl = fileUrl;
-        method = 'GET';
-    } else {
-        return new Response(JSON.stringify({ error: 'Invalid operation' }), { status: 400 });
-    }
+  // 已保存的地址由管理员配置，可以在内网；请求里临时给出的地址和抓取网页一样只能是公网地址
+  if (url !== stored?.url && !await checkPublicUrl(url)) {
+    return jsonResponse({ error: 'Refusing to connect to a private address' }, 400);
+  }
+  return { target: { url, username, password }, retention: unchanged ? await getWebDavRetention(env) : DEFAULT_RETENTION };
+};
+
+// 未指定文件名时下载最新的备份
+const pickBackup = async (target: WebDavTarget, filename?: string): Promise<string> => {
+  if (filename) {
+    if (!isBackupFilename(filename)) throw new WebDavError('Invalid backup file name', 400);
+    return filename;
+  }
+  const [latest] = await listWebDav(target);
+  if (!latest) throw new WebDavError('Backup file not found', 404);
+  return latest.name;
+};
+
+// POST: WebDAV 代理（解决浏览器跨域限制），operation 为：
+//   check: 测试连接；upload: 上传为带时间戳的新备份并按保留策略清理旧备份，返回 { success, filename, pruned }；
+//   list: 列出目录中的备份 { files: [{ name, createdAt, size }] }（最新在前）；download: 下载 filename 指定的备份，默认最新
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
 
-    // 4. 发起服务器端请求 (无 CORS 限制)
-    const response = await fetch(fetchUrl, {
-        method,
-        headers,
-        body: requestBody
-    });
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+  const { value: input, errors } = validateWebDavRequest(body);
+  if (errors) return validationErrorResponse(errors);
+  const { operation, config, payload, filename } = input;
+
+  try {
+    const resolved = await resolveTarget(request, env, config);
+    if (resolved instanceof Response) return resolved;
+    const { target, retention } = resolved;
 
-    // 5. 处理响应
-    
-    // 下载操作特殊处理
     if (operation === 'download') {
-        if (!response.ok) {
-             // 如果文件不存在 (404)，返回特定的错误信息
-             if (response.status === 404) {
-                 return new Response(JSON.stringify({ error: 'Backup file not found' }), { status: 404 });
-             }
-             return new Response(JSON.stringify({ error: `WebDAV Error: ${response.status}` }), { status: response.status });
-        }
-        const data = await response.json();
-        return new Response(JSON.stringify(data), { 
-            headers: { 'Content-Type': 'application/json' } 
-        });
+      return jsonResponse(await downloadWebDav(target, await pickBackup(target, filename)));
+    }
+    if (operation === 'list') {
+      return jsonResponse({ files: await listWebDav(target) });
+    }
+    if (operation === 'upload') {
+      return jsonResponse({ success: true, ...await backupToWebDav(target, payload, retention) });
     }
 
-    // 检查和上传操作：判断状态码
     // WebDAV 成功状态码通常为 200, 201(Created), 204(No Content), 207(Multi-Status)
-    const success = response.ok || response.status === 207;
-    
-    return new Response(JSON.stringify({ success, status: response.status }), { 
-        headers: { 'Content-Type': 'application/json' } 
-    });
-
+    return jsonResponse({ success: true, status: await checkWebDav(target) });
   } catch (err: any) {
-    return new Response(JSON.stringify({ error: err.message }), { status: 500 });
+    if (err instanceof WebDavError && err.status) {
+      // 检查和上传失败时返回 success: false，列出和下载失败时沿用 WebDAV 服务器的状态码
+      return operation === 'download' || operation === 'list'
+        ? jsonResponse({ error: err.message }, err.status)
+        : jsonResponse({ success: false, status: err.status });
+    }
+    return jsonResponse({ error: err.message }, 500);
   }
 };
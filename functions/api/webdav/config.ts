@@ -0,0 +1,82 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { recordEvent } from '../../_lib/audit';
+import { deleteWebDavConfig, getWebDavConfig, saveWebDavConfig } from '../../_lib/backupSchedule';
+import { readJsonBody, validateWebDavConfig, validationErrorResponse } from '../../_lib/validation';
+
+type Context = { request: Request; env: Env };
+
+// 操作记录只写主机名，不带路径和账号
+const hostOf = (url?: string) => url ? new URL(url).host : undefined;
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// GET: 服务端保存的 WebDAV 配置（不含密码）以及最近一次备份的结果
+export const onRequestGet = async (context: Context) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  try {
+    return jsonResponse({ config: await getWebDavConfig(env) });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to load WebDAV config' }, 500);
+  }
+};
+
+// POST: 保存 WebDAV 配置和自动备份间隔；密码加密后保存，不传 password 时沿用已保存的密码。
+// 开启自动备份加密（encryption）需要设置 AUTH_SECRET：否则加密密钥所用的签名密钥就存在同一个存储里，
+// 能读取存储的人也能解开备份
+export const onRequestPost = async (context: Context) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const body = await readJsonBody(request);
+  if (body instanceof Response) return body;
+
+  const { value: input, errors } = validateWebDavConfig(body);
+  if (errors) return validationErrorResponse(errors);
+  if (input.encryption && !env.AUTH_SECRET) {
+    return validationErrorResponse([{ field: 'encryption', message: 'requires AUTH_SECRET to be set on the server' }]);
+  }
+
+  try {
+    if (!await saveWebDavConfig(env, input)) {
+      return validationErrorResponse([{ field: 'password', message: 'is required' }]);
+    }
+    await recordEvent(env, request, auth, 'backup.save', { type: 'webdav', change: 'updated', label: hostOf(input.url) });
+    return jsonResponse({ config: await getWebDavConfig(env) });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to save WebDAV config' }, 500);
+  }
+};
+
+// DELETE: 删除服务端保存的 WebDAV 配置，自动备份随之停止
+export const onRequestDelete = async (context: Context) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  try {
+    const previous = await getWebDavConfig(env);
+    await deleteWebDavConfig(env);
+    if (previous) await recordEvent(env, request, auth, 'backup.delete', { type: 'webdav', change: 'removed', label: hostOf(previous.url) });
+    return jsonResponse({ success: true });
+  } catch (err) {
+    return jsonResponse({ error: 'Failed to delete WebDAV config' }, 500);
+  }
+};
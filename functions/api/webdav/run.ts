@@ -0,0 +1,22 @@
+import { Env } from '../../_lib/env';
+import { resolveSpace } from '../../_lib/spaces';
+import { authorize } from '../../_lib/auth';
+import { jsonResponse, preflightResponse } from '../../_lib/http';
+import { runWebDavBackup } from '../../_lib/backupSchedule';
+
+export const onRequestOptions = async () => {
+  return preflightResponse();
+};
+
+// POST: 立即把服务端数据备份到已保存的 WebDAV 目标，返回本次结果（同时记为最近一次备份）
+export const onRequestPost = async (context: { request: Request; env: Env }) => {
+  const { request } = context;
+  const env = await resolveSpace(request, context.env);
+  if (env instanceof Response) return env;
+
+  const auth = await authorize(request, env);
+  if (auth instanceof Response) return auth;
+
+  const status = await runWebDavBackup(env, 'manual');
+  return jsonResponse({ status }, status.ok ? 200 : 502);
+};
@@ -1,15 +1,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedCategoryPage from './components/SharedCategoryPage';
+import { shareTokenFromPath } from './services/spaceService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Share URLs get a standalone read-only page instead of the full app
+const shareToken = shareTokenFromPath();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {shareToken ? <SharedCategoryPage token={shareToken} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+export interface ServerConfig {
+  port: number;
+  host: string;
+  staticDir: string;
+  storage: { type: 'file' | 'sqlite'; path: string };
+  // Behind a reverse proxy, take the client IP from its headers instead of the socket
+  trustProxy: boolean;
+  // Passed to the functions as `env`, like Pages environment variables
+  env: Record<string, string>;
+}
+
+interface ConfigFile {
+  port?: number;
+  host?: string;
+  staticDir?: string;
+  storage?: { type?: 'file' | 'sqlite'; path?: string };
+  trustProxy?: boolean;
+  env?: Record<string, string>;
+}
+
+const DEFAULT_STORAGE_PATHS = { file: 'data/cloudnav.json', sqlite: 'data/cloudnav.db' };
+
+const readConfigFile = (): ConfigFile => {
+  const path = resolve(process.env.CLOUDNAV_CONFIG || 'cloudnav.config.json');
+  if (!existsSync(path)) {
+    if (process.env.CLOUDNAV_CONFIG) throw new Error(`Config file not found: ${path}`);
+    return {};
+  }
+  return JSON.parse(readFileSync(path, 'utf8'));
+};
+
+/**
+ * Settings come from `cloudnav.config.json` (or the file named by `CLOUDNAV_CONFIG`);
+ * environment variables take precedence over the file.
+ */
+export const loadConfig = (): ServerConfig => {
+  const file = readConfigFile();
+  const processEnv = Object.fromEntries(
+    Object.entries(process.env).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+
+  const type = (process.env.STORAGE_TYPE || file.storage?.type || 'file') as ServerConfig['storage']['type'];
+  if (type !== 'file' && type !== 'sqlite') {
+    throw new Error(`Unknown STORAGE_TYPE "${type}", expected "file" or "sqlite"`);
+  }
+
+  return {
+    port: Number(process.env.PORT || file.port || 8787),
+    host: process.env.HOST || file.host || '0.0.0.0',
+    staticDir: resolve(process.env.STATIC_DIR || file.staticDir || 'dist'),
+    storage: { type, path: resolve(process.env.STORAGE_PATH || file.storage?.path || DEFAULT_STORAGE_PATHS[type]) },
+    trustProxy: process.env.TRUST_PROXY ? process.env.TRUST_PROXY === 'true' : file.trustProxy === true,
+    env: { ...file.env, ...processEnv },
+  };
+};
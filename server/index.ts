@@ -0,0 +1,178 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { lookup } from 'node:dns/promises';
+import { extname, join, normalize, sep } from 'node:path';
+import type { Env } from '../functions/_lib/env';
+import type { Storage } from '../functions/_lib/storage/types';
+import { D1Storage } from '../functions/_lib/storage/d1';
+import { FileStorage } from '../functions/_lib/storage/file';
+import { loadConfig, ServerConfig } from './config';
+import { getHandler, matchRoute } from './routes';
+import { openSqlite } from './sqlite';
+import { runDueBackups } from '../functions/_lib/backupSchedule';
+import { setHostResolver } from '../functions/_lib/outbound';
+import { LIMITS } from '../functions/_lib/validation';
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.webp': 'image/webp',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+// How often to look for spaces whose WebDAV backup is due
+const BACKUP_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const createStorage = async (config: ServerConfig): Promise<Storage> => {
+  if (config.storage.type === 'sqlite') return new D1Storage(await openSqlite(config.storage.path));
+  return new FileStorage(config.storage.path);
+};
+
+class BodyTooLargeError extends Error {}
+
+// Stops reading at the same size the functions accept, so an oversized upload is
+// rejected without first being held in memory
+const readBody = async (req: IncomingMessage): Promise<Buffer | undefined> => {
+  if (req.method === 'GET' || req.method === 'HEAD') return undefined;
+  if (Number(req.headers['content-length']) > LIMITS.bodyBytes) throw new BodyTooLargeError();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > LIMITS.bodyBytes) throw new BodyTooLargeError();
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+// The address a trusted reverse proxy reports: its CF-Connecting-IP, or the last
+// X-Forwarded-For entry, which is the one the proxy itself appended
+const forwardedFor = (headers: Headers): string | undefined =>
+  headers.get('CF-Connecting-IP') || headers.get('X-Forwarded-For')?.split(',').pop()?.trim() || undefined;
+
+const toRequest = async (req: IncomingMessage, url: URL, trustProxy: boolean): Promise<Request> => {
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (Array.isArray(value)) value.forEach(v => headers.append(name, v));
+    else if (value !== undefined) headers.set(name, value);
+  });
+  // Functions read the client IP from the header Cloudflare would set. Anything the client
+  // sent is replaced, or it could pick a fresh address for every failed login
+  const clientIp = (trustProxy && forwardedFor(headers)) || req.socket.remoteAddress;
+  headers.delete('CF-Connecting-IP');
+  if (clientIp) headers.set('CF-Connecting-IP', clientIp);
+  return new Request(url, { method: req.method, headers, body: await readBody(req) });
+};
+
+const sendResponse = async (res: ServerResponse, response: Response, isHead: boolean) => {
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  if (isHead || response.body === null) {
+    res.end();
+    return;
+  }
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+// Serves the Vite build; unknown paths without an extension get index.html for client-side routes
+const serveStatic = async (res: ServerResponse, root: string, pathname: string, isHead: boolean) => {
+  const filePath = normalize(join(root, decodeURIComponent(pathname)));
+  if (filePath !== root && !filePath.startsWith(root + sep)) {
+    res.writeHead(403).end();
+    return;
+  }
+
+  let target = filePath;
+  const info = await stat(target).catch(() => null);
+  if (info?.isDirectory()) target = join(target, 'index.html');
+  else if (!info) target = extname(pathname) ? '' : join(root, 'index.html');
+
+  const body = target ? await readFile(target).catch(() => null) : null;
+  if (!body) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not Found');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': MIME_TYPES[extname(target)] || 'application/octet-stream',
+    // Vite fingerprints everything under /assets
+    'Cache-Control': pathname.startsWith('/assets/') ? 'public, max-age=31536000, immutable' : 'no-cache',
+  });
+  res.end(isHead ? undefined : body);
+};
+
+const start = async () => {
+  const config = loadConfig();
+  const env: Env = { ...config.env, PASSWORD: config.env.PASSWORD || '', STORAGE: await createStorage(config) };
+
+  // Unlike on Cloudflare, outbound requests start inside the host's network: refuse names
+  // that resolve to private addresses before fetching them
+  setHostResolver(async hostname => (await lookup(hostname, { all: true })).map(entry => entry.address));
+
+  if (!env.PASSWORD) {
+    console.warn('PASSWORD is not set: the site is read-only until it is configured.');
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const isHead = req.method === 'HEAD';
+
+    try {
+      const match = matchRoute(url.pathname);
+      if (!match) {
+        await serveStatic(res, config.staticDir, url.pathname, isHead);
+        return;
+      }
+
+      const handler = getHandler(match.route.module, isHead ? 'GET' : req.method || 'GET');
+      if (!handler) {
+        res.writeHead(405).end();
+        return;
+      }
+
+      const pending: Promise<unknown>[] = [];
+      const response = await handler({
+        request: await toRequest(req, url, config.trustProxy),
+        env,
+        params: match.params,
+        data: {},
+        waitUntil: (promise: Promise<unknown>) => { pending.push(promise); },
+        next: () => Promise.resolve(new Response('Not Found', { status: 404 })),
+      });
+      await sendResponse(res, response, isHead);
+      Promise.allSettled(pending).then(results => results.forEach(r => {
+        if (r.status === 'rejected') console.error('waitUntil task failed', r.reason);
+      }));
+    } catch (err) {
+      if (err instanceof BodyTooLargeError) {
+        res.writeHead(413, { 'Content-Type': 'application/json', Connection: 'close' });
+        res.end(JSON.stringify({ error: `Request body exceeds ${LIMITS.bodyBytes} bytes` }));
+        return;
+      }
+      console.error(`${req.method} ${url.pathname} failed`, err);
+      if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Internal Server Error');
+    }
+  });
+
+  // Stands in for the Cloudflare cron worker (worker/scheduled.ts)
+  setInterval(() => {
+    runDueBackups(env).catch(err => console.error('Scheduled backup check failed', err));
+  }, BACKUP_CHECK_INTERVAL_MS);
+
+  server.listen(config.port, config.host, () => {
+    console.log(`CloudNav listening on http://${config.host}:${config.port}`);
+    console.log(`Storage: ${config.storage.type} (${config.storage.path})`);
+  });
+};
+
+start().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
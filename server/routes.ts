@@ -0,0 +1,71 @@
+/// <reference types="vite/client" />
+
+type Handler = (context: any) => Response | Promise<Response>;
+type RouteModule = Record<string, Handler | undefined>;
+
+export interface Route {
+  segments: string[];
+  module: RouteModule;
+}
+
+// Same layout rules as Cloudflare Pages: `_`-prefixed folders are not routes
+const modules = import.meta.glob<RouteModule>(['../functions/**/*.ts', '!../functions/**/_*/**'], { eager: true });
+
+const toSegments = (file: string) => {
+  const segments = file.replace(/^.*?\/functions\//, '').replace(/\.ts$/, '').split('/');
+  if (segments[segments.length - 1] === 'index') segments.pop();
+  return segments;
+};
+
+// Static segments win over `[param]`, which wins over `[[catchAll]]`
+const rank = (segment: string) => segment.startsWith('[[') ? 2 : segment.startsWith('[') ? 1 : 0;
+
+const compareRoutes = (a: Route, b: Route) => {
+  for (let i = 0; i < Math.min(a.segments.length, b.segments.length); i++) {
+    const diff = rank(a.segments[i]) - rank(b.segments[i]);
+    if (diff !== 0) return diff;
+  }
+  return b.segments.length - a.segments.length;
+};
+
+export const routes: Route[] = Object.entries(modules)
+  .map(([file, module]) => ({ segments: toSegments(file), module }))
+  .sort(compareRoutes);
+
+/**
+ * Finds the route for a path and extracts its params, e.g. `/api/links/1` -> `{ id: '1' }`.
+ */
+export const matchRoute = (pathname: string) => {
+  const parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  for (const route of routes) {
+    const params: Record<string, string | string[]> = {};
+    let matched = true;
+
+    for (let i = 0; i < route.segments.length; i++) {
+      const segment = route.segments[i];
+      if (segment.startsWith('[[')) {
+        params[segment.slice(2, -2)] = parts.slice(i);
+        i = parts.length;
+        break;
+      }
+      if (i >= parts.length) { matched = false; break; }
+      if (segment.startsWith('[')) params[segment.slice(1, -1)] = parts[i];
+      else if (segment !== parts[i]) { matched = false; break; }
+    }
+
+    const isCatchAll = route.segments.some(s => s.startsWith('[['));
+    if (matched && (isCatchAll || route.segments.length === parts.length)) {
+      return { route, params };
+    }
+  }
+  return null;
+};
+
+/**
+ * Picks `onRequestGet`/`onRequestPost`/... for the method, falling back to `onRequest`.
+ */
+export const getHandler = (module: RouteModule, method: string): Handler | undefined => {
+  const name = `onRequest${method.charAt(0)}${method.slice(1).toLowerCase()}`;
+  return module[name] || module.onRequest;
+};
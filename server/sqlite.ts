@@ -0,0 +1,21 @@
+import type { D1DatabaseLike, D1StatementLike } from '../functions/_lib/storage/d1';
+
+/**
+ * Wraps Node's built-in SQLite (`node:sqlite`, Node 22.13+) in the D1 shape,
+ * so the same D1Storage runs against a local database file.
+ */
+export const openSqlite = async (path: string): Promise<D1DatabaseLike> => {
+  const { DatabaseSync } = await import('node:sqlite').catch(() => {
+    throw new Error(`STORAGE_TYPE "sqlite" needs Node 22.13 or later (running ${process.version}); use "file" on older versions`);
+  });
+  const db = new DatabaseSync(path);
+
+  const statement = (query: string, values: any[] = []): D1StatementLike => ({
+    bind: (...next: unknown[]) => statement(query, next),
+    first: async <T>() => (db.prepare(query).get(...values) as T | undefined) ?? null,
+    all: async <T>() => ({ results: db.prepare(query).all(...values) as T[] }),
+    run: async () => db.prepare(query).run(...values),
+  });
+
+  return { prepare: (query: string) => statement(query) };
+};
@@ -0,0 +1,44 @@
+import { LinkItem } from "../types";
+import { authHeaders } from "./authService";
+import { spaceUrl } from "./spaceService";
+
+// Single-item routes: each call changes one resource instead of uploading the whole document
+const send = (path: string, method: string, token: string, body?: unknown) => {
+  return fetch(spaceUrl(path), {
+    method,
+    headers: body === undefined ? authHeaders(token) : { 'Content-Type': 'application/json', ...authHeaders(token) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+};
+
+export const patchLink = (token: string, id: string, changes: Partial<Omit<LinkItem, 'id' | 'createdAt'>>) =>
+  send(`/api/links/${encodeURIComponent(id)}`, 'PATCH', token, changes);
+
+export const deleteLink = (token: string, id: string) =>
+  send(`/api/links/${encodeURIComponent(id)}`, 'DELETE', token);
+
+export const deleteCategory = (token: string, id: string, moveTo?: string) =>
+  send(`/api/categories/${encodeURIComponent(id)}${moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : ''}`, 'DELETE', token);
+
+export const reorderCategories = (token: string, ids: string[]) =>
+  send('/api/categories/reorder', 'POST', token, { ids });
+
+/**
+ * Reads the document revision from a response's `ETag` header.
+ */
+export const revisionFromResponse = (response: Response): number | null => {
+  const match = response.headers.get('ETag')?.match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Title, description and icon read from the page by the server (`PageMetadata`).
+ */
+export const fetchMetadata = (token: string, url: string) =>
+  send(`/api/metadata?url=${encodeURIComponent(url)}`, 'GET', token);
+
+/**
+ * Asks the server to check up to 20 links; responds with `{ results: [{ id, health }] }`.
+ */
+export const checkLinks = (token: string, ids: string[]) =>
+  send('/api/links/check', 'POST', token, { ids });
@@ -0,0 +1,24 @@
+/**
+ * Headers for calls that require a session token.
+ */
+export const authHeaders = (token: string) => ({ 'Authorization': `Bearer ${token}` });
+
+/**
+ * Message for a 429 from a password check, null for any other response.
+ */
+export const throttleMessage = (res: Response): string | null => {
+  if (res.status !== 429) return null;
+  const seconds = Number(res.headers.get('Retry-After')) || 0;
+  if (seconds <= 0) return '尝试次数过多，请稍后再试';
+  return seconds >= 60 ? `尝试次数过多，请 ${Math.ceil(seconds / 60)} 分钟后再试` : `尝试次数过多，请 ${seconds} 秒后再试`;
+};
+
+/**
+ * Friendly label shown in the session list, e.g. "Chrome · Windows".
+ */
+export const describeDevice = (): string => {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge' : /Firefox\//.test(ua) ? 'Firefox' : /Chrome\//.test(ua) ? 'Chrome' : /Safari\//.test(ua) ? 'Safari' : 'Browser';
+  const os = /Android/.test(ua) ? 'Android' : /iPhone|iPad/.test(ua) ? 'iOS' : /Windows/.test(ua) ? 'Windows' : /Mac OS/.test(ua) ? 'macOS' : /Linux/.test(ua) ? 'Linux' : '';
+  return os ? `${browser} · ${os}` : browser;
+};
@@ -0,0 +1,90 @@
+import { BackupEncryptionKey, BackupEnvelope, BackupKdfParams, ENCRYPTED_BACKUP_FORMAT, EncryptedBackup } from "../types";
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+// Refuse files that would keep the browser busy for minutes
+const MAX_ITERATIONS = 10_000_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class BackupPassphraseError extends Error {}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const newKdfParams = (): BackupKdfParams => ({
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations: PBKDF2_ITERATIONS,
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(16))),
+});
+
+const deriveKey = async (passphrase: string, kdf: BackupKdfParams, extractable: boolean = false) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: fromBase64(kdf.salt) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (raw: unknown): raw is EncryptedBackup =>
+  typeof raw === 'object' && raw !== null && (raw as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+
+/**
+ * Encrypts a backup with a key derived from `passphrase`; a new salt and IV every time.
+ */
+export const encryptBackup = async (backup: BackupEnvelope, passphrase: string): Promise<EncryptedBackup> => {
+  const kdf = newKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(backup)));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    createdAt: backup.createdAt,
+    kdf,
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(data)),
+  };
+};
+
+/**
+ * Returns the backup inside an encrypted file. Throws `BackupPassphraseError` when the
+ * passphrase is wrong (or the file was altered) and when the header is not understood.
+ */
+export const decryptBackup = async (file: EncryptedBackup, passphrase: string): Promise<unknown> => {
+  const { kdf, cipher } = file;
+  if (kdf?.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || cipher?.name !== 'AES-GCM'
+      || !Number.isInteger(kdf.iterations) || kdf.iterations < 1 || kdf.iterations > MAX_ITERATIONS) {
+    throw new BackupPassphraseError('不支持的加密参数');
+  }
+
+  try {
+    const key = await deriveKey(passphrase, kdf);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(cipher.iv) }, key, fromBase64(file.data));
+    return JSON.parse(decoder.decode(plaintext));
+  } catch (e) {
+    throw new BackupPassphraseError('密码错误或文件已损坏');
+  }
+};
+
+/**
+ * Derives a key the server can encrypt scheduled backups with. The passphrase
+ * itself never leaves the browser.
+ */
+export const deriveServerBackupKey = async (passphrase: string): Promise<BackupEncryptionKey> => {
+  const kdf = newKdfParams();
+  const key = await deriveKey(passphrase, kdf, true);
+  return { kdf, key: toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key))) };
+};
@@ -0,0 +1,86 @@
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupEnvelope, BackupState, EncryptedBackup } from "../types";
+import { decryptBackup, isEncryptedBackup } from "./backupCrypto";
+
+/**
+ * Wraps the app state in a versioned backup. Secrets (the AI API key and the
+ * WebDAV password) are only kept when `includeSecrets` is set.
+ */
+export const createBackup = (state: BackupState, includeSecrets: boolean): BackupEnvelope => {
+  const data: BackupState = {
+    ...state,
+    categories: state.categories.map(({ password, ...c }) => c),
+    aiConfig: state.aiConfig && (includeSecrets ? state.aiConfig : { ...state.aiConfig, apiKey: '' }),
+    webDavConfig: state.webDavConfig && (includeSecrets ? state.webDavConfig : { ...state.webDavConfig, password: '' }),
+  };
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: Date.now(), includesSecrets: includeSecrets, data };
+};
+
+export class BackupFormatError extends Error {}
+
+export interface ParsedBackup {
+  state: BackupState;
+  createdAt?: number;
+  includesSecrets: boolean;
+  encrypted?: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a backup envelope, or a bare `{ links, categories }` document as written
+ * before envelopes existed. Throws `BackupFormatError` for anything else.
+ */
+export const parseBackup = (raw: unknown): ParsedBackup => {
+  let source = raw;
+  let createdAt: number | undefined;
+  let includesSecrets = false;
+  if (isObject(raw) && raw.format === BACKUP_FORMAT) {
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+      throw new BackupFormatError('备份文件来自更新的版本，请先升级');
+    }
+    source = raw.data;
+    createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : undefined;
+    includesSecrets = raw.includesSecrets === true;
+  }
+  if (!isObject(source) || !Array.isArray(source.links) || !Array.isArray(source.categories)) {
+    throw new BackupFormatError('文件格式错误');
+  }
+
+  const state: BackupState = { links: source.links, categories: source.categories };
+  if (isObject(source.settings)) state.settings = source.settings as BackupState['settings'];
+  if (Array.isArray(source.searchEngines)) state.searchEngines = source.searchEngines;
+  if (isObject(source.aiConfig)) state.aiConfig = source.aiConfig as BackupState['aiConfig'];
+  if (isObject(source.webDavConfig)) state.webDavConfig = source.webDavConfig as BackupState['webDavConfig'];
+  if (isObject(source.sync) && isObject(source.sync.modifiedAt) && Array.isArray(source.sync.tombstones)) {
+    state.sync = source.sync as BackupState['sync'];
+  }
+  return { state, createdAt, includesSecrets };
+};
+
+/**
+ * Like `parseBackup`, but also opens encrypted backups, asking for the passphrase
+ * through `getPassphrase`. Throws `BackupPassphraseError` when decryption fails.
+ */
+export const openBackup = async (raw: unknown, getPassphrase: () => Promise<string | null>): Promise<ParsedBackup> => {
+  if (!isEncryptedBackup(raw)) return parseBackup(raw);
+  const passphrase = await getPassphrase();
+  if (!passphrase) throw new BackupFormatError('需要备份密码才能读取加密备份');
+  return { ...parseBackup(await decryptBackup(raw, passphrase)), encrypted: true };
+};
+
+/**
+ * Saves a backup, plain or encrypted, as a JSON file.
+ */
+export const downloadBackupFile = (backup: BackupEnvelope | EncryptedBackup) => {
+  const date = new Date(backup.createdAt).toISOString().split('T')[0];
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `cloudnav_backup_${date}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -69,7 +69,8 @@ export const parseBookmarks = async (file: File): Promise<ImportResult> => {
             const title = a.textContent || a.getAttribute('href') || 'No Title';
             const url = a.getAttribute('href');
             
-            if (url && !url.startsWith('chrome://') && !url.startsWith('about:')) {
+            // Bookmarklets (javascript:) and data: URLs are rejected by the server
+            if (url && !/^(chrome|about|javascript|data|vbscript):/i.test(url)) {
                 links.push({
                     id: generateId(),
                     title: title,
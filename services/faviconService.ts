@@ -0,0 +1,32 @@
+import { LinkItem } from "../types";
+import { spaceUrl } from "./spaceService";
+
+// Icons saved before the favicon proxy existed point at Google's service; proxied ones
+// may carry another space (or none), so both are rebuilt for the link's current space
+const REBUILT_ICON = /^(https?:\/\/t\d\.gstatic\.com\/faviconV2|\/api\/favicon\?)/;
+
+/**
+ * Icon URL served by this site's `/api/favicon` proxy for the page's host. Relative,
+ * so it keeps working when the site moves to another domain. The proxy only fetches
+ * icons for hosts of the space's saved links.
+ */
+export const faviconUrl = (pageUrl: string): string => {
+  try {
+    const { origin } = new URL(/^\w+:\/\//.test(pageUrl) ? pageUrl : `https://${pageUrl}`);
+    return spaceUrl(`/api/favicon?url=${encodeURIComponent(origin)}`);
+  } catch (e) {
+    return '';
+  }
+};
+
+/**
+ * What a link card shows: the link's own icon, or the proxied site icon when it has
+ * none (or only a Google favicon or proxy URL).
+ */
+export const linkIcon = (link: Pick<LinkItem, 'icon' | 'url'>): string => {
+  if (link.icon && !REBUILT_ICON.test(link.icon)) return link.icon;
+  return faviconUrl(link.url);
+};
+
+// Search engine icons are either a Lucide icon name or an image URL
+export const isImageIcon = (icon: string | undefined) => !!icon && /^(https?:\/\/|\/|data:image\/)/.test(icon);
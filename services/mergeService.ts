@@ -0,0 +1,132 @@
+import { Category, LinkItem, SiteSettings } from "../types";
+
+export interface SyncSnapshot {
+  links: LinkItem[];
+  categories: Category[];
+  settings?: SiteSettings;
+  revision?: number;
+}
+
+export type MergeConflict =
+  | { kind: 'link'; id: string; local?: LinkItem; remote?: LinkItem }
+  | { kind: 'category'; id: string; local?: Category; remote?: Category }
+  | { kind: 'settings'; id: string; local?: SiteSettings; remote?: SiteSettings };
+
+export interface MergeResult {
+  // Conflicting entries hold the local version until resolved
+  merged: SyncSnapshot;
+  conflicts: MergeConflict[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export const conflictKey = (conflict: MergeConflict) => `${conflict.kind}:${conflict.id}`;
+
+// Key-order independent comparison, so objects built in different places still compare equal
+const stableStringify = (value: unknown): string => {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+};
+
+const isSame = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+/**
+ * Three-way merge of two lists keyed by id. A change on one side wins over an
+ * untouched item on the other; changes (or edit vs delete) on both sides conflict.
+ */
+const mergeById = <T extends { id: string }>(base: T[], local: T[], remote: T[], prependRemoteAdds: boolean) => {
+  const baseMap = new Map(base.map(item => [item.id, item]));
+  const localIds = new Set(local.map(item => item.id));
+  const remoteMap = new Map(remote.map(item => [item.id, item]));
+
+  const items: T[] = [];
+  const conflicts: { id: string; local?: T; remote?: T }[] = [];
+
+  for (const item of local) {
+    const b = baseMap.get(item.id);
+    const r = remoteMap.get(item.id);
+
+    if (!r) {
+      // Added locally, or deleted remotely
+      if (b && isSame(item, b)) continue;
+      if (b) conflicts.push({ id: item.id, local: item, remote: undefined });
+      items.push(item);
+      continue;
+    }
+
+    if (isSame(item, r) || (b && isSame(r, b))) {
+      items.push(item);
+    } else if (b && isSame(item, b)) {
+      items.push(r);
+    } else {
+      conflicts.push({ id: item.id, local: item, remote: r });
+      items.push(item);
+    }
+  }
+
+  const remoteAdds: T[] = [];
+  for (const r of remote) {
+    if (localIds.has(r.id)) continue;
+    const b = baseMap.get(r.id);
+    if (!b) {
+      remoteAdds.push(r);
+    } else if (!isSame(r, b)) {
+      // Deleted locally but edited remotely
+      conflicts.push({ id: r.id, local: undefined, remote: r });
+    }
+  }
+
+  return {
+    items: prependRemoteAdds ? [...remoteAdds, ...items] : [...items, ...remoteAdds],
+    conflicts,
+  };
+};
+
+export const mergeAppData = (base: SyncSnapshot, local: SyncSnapshot, remote: SyncSnapshot): MergeResult => {
+  const links = mergeById(base.links, local.links, remote.links, true);
+  const categories = mergeById(base.categories, local.categories, remote.categories, false);
+
+  const conflicts: MergeConflict[] = [
+    ...links.conflicts.map(c => ({ kind: 'link' as const, ...c })),
+    ...categories.conflicts.map(c => ({ kind: 'category' as const, ...c })),
+  ];
+
+  let settings = local.settings;
+  if (isSame(local.settings, base.settings)) {
+    settings = remote.settings;
+  } else if (!isSame(local.settings, remote.settings) && !isSame(remote.settings, base.settings)) {
+    conflicts.push({ kind: 'settings', id: 'settings', local: local.settings, remote: remote.settings });
+  }
+
+  return {
+    merged: { links: links.items, categories: categories.items, settings, revision: remote.revision },
+    conflicts,
+  };
+};
+
+const applyChoice = <T extends { id: string }>(list: T[], id: string, chosen: T | undefined, prepend: boolean): T[] => {
+  if (!chosen) return list.filter(item => item.id !== id);
+  if (list.some(item => item.id === id)) return list.map(item => item.id === id ? chosen : item);
+  return prepend ? [chosen, ...list] : [...list, chosen];
+};
+
+/**
+ * Applies the user's pick for every conflict; unresolved conflicts keep the local version.
+ */
+export const resolveConflicts = (result: MergeResult, choices: Record<string, ConflictChoice>): SyncSnapshot => {
+  let { links, categories, settings } = result.merged;
+
+  result.conflicts.forEach(conflict => {
+    if (choices[conflictKey(conflict)] !== 'remote') return;
+    if (conflict.kind === 'link') links = applyChoice(links, conflict.id, conflict.remote, true);
+    else if (conflict.kind === 'category') categories = applyChoice(categories, conflict.id, conflict.remote, false);
+    else settings = conflict.remote;
+  });
+
+  return { ...result.merged, links, categories, settings };
+};
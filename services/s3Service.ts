@@ -0,0 +1,77 @@
+import { BackupEnvelope, BackupRetention, EncryptedBackup, S3Config, ServerS3Config, WebDavBackupFile } from "../types";
+import { openBackup, ParsedBackup } from "./backupService";
+import { authHeaders } from "./authService";
+import { spaceUrl } from "./spaceService";
+
+// Same operations as the WebDAV proxy, always against the bucket stored on the server
+const callS3 = async (operation: 'check' | 'upload' | 'list' | 'download', token: string, extra: { payload?: any, filename?: string } = {}) => {
+    try {
+        const response = await fetch(spaceUrl('/api/s3'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+            body: JSON.stringify({ operation, ...extra })
+        });
+
+        if (!response.ok) {
+            console.error(`S3 Proxy Error: ${response.status}`);
+            return null;
+        }
+
+        return await response.json();
+    } catch (e) {
+        console.error("S3 Proxy Network Error", e);
+        return null;
+    }
+};
+
+export const checkS3Connection = async (token: string): Promise<boolean> => {
+    const result = await callS3('check', token);
+    return result?.success === true;
+};
+
+export const uploadS3Backup = async (backup: BackupEnvelope | EncryptedBackup, token: string): Promise<boolean> => {
+    const result = await callS3('upload', token, { payload: backup });
+    return result?.success === true;
+};
+
+/**
+ * Backups under the bucket prefix, newest first, or null when listing failed.
+ */
+export const listS3Backups = async (token: string): Promise<WebDavBackupFile[] | null> => {
+    const result = await callS3('list', token);
+    return Array.isArray(result?.files) ? result.files : null;
+};
+
+// Like `downloadBackup` for WebDAV: the newest backup without a file name, encrypted ones opened via `getPassphrase`
+export const downloadS3Backup = async (
+    token: string,
+    filename: string | undefined,
+    getPassphrase: () => Promise<string | null>
+): Promise<ParsedBackup | null> => {
+    const result = await callS3('download', token, { filename });
+    return result ? openBackup(result, getPassphrase) : null;
+};
+
+/**
+ * The bucket stored on the server, or null when none is configured.
+ */
+export const fetchS3Config = async (token: string): Promise<ServerS3Config | null> => {
+    const response = await fetch(spaceUrl('/api/s3/config'), { headers: authHeaders(token) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return (await response.json()).config;
+};
+
+export interface S3ConfigInput extends S3Config {
+    secretAccessKey?: string; // Left out to keep the stored key
+    retention?: BackupRetention;
+}
+
+export const saveS3Config = async (token: string, config: S3ConfigInput): Promise<ServerS3Config> => {
+    const response = await fetch(spaceUrl('/api/s3/config'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+        body: JSON.stringify(config),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return (await response.json()).config;
+};
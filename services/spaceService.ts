@@ -0,0 +1,47 @@
+// Must match the server: the default space keeps the original, unprefixed storage
+export const DEFAULT_SPACE = 'default';
+
+// `/s/:space`, optionally followed by a page inside the space such as `/share/:token`
+const SPACE_PATH = /^\/s\/([a-z0-9][a-z0-9-]{0,31})(?:\/|$)/;
+const SHARE_PATH = /^(?:\/s\/[a-z0-9][a-z0-9-]{0,31})?\/share\/([\w-]+)\/?$/;
+
+/**
+ * The space this page belongs to, taken from `/s/:space/...`. Fixed for the page's lifetime:
+ * switching spaces navigates to a new URL.
+ */
+export const currentSpace = (): string => {
+  const match = window.location.pathname.match(SPACE_PATH);
+  return match ? match[1] : DEFAULT_SPACE;
+};
+
+export const isDefaultSpace = (space: string = currentSpace()) => space === DEFAULT_SPACE;
+
+export const spacePath = (space: string) => isDefaultSpace(space) ? '/' : `/s/${space}`;
+
+/**
+ * Public URL of a category share in the current space.
+ */
+export const shareUrl = (token: string, space: string = currentSpace()): string => {
+  const base = isDefaultSpace(space) ? '' : spacePath(space);
+  return `${window.location.origin}${base}/share/${token}`;
+};
+
+// The share token when this page is a share URL
+export const shareTokenFromPath = (): string | null => {
+  return window.location.pathname.match(SHARE_PATH)?.[1] || null;
+};
+
+/**
+ * Adds `?space=` to an API path when outside the default space.
+ */
+export const spaceUrl = (path: string, space: string = currentSpace()): string => {
+  if (isDefaultSpace(space)) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}space=${encodeURIComponent(space)}`;
+};
+
+/**
+ * localStorage key for per-space state (data cache, session token), so spaces never share them.
+ */
+export const spaceStorageKey = (key: string, space: string = currentSpace()): string => {
+  return isDefaultSpace(space) ? key : `${key}:${space}`;
+};
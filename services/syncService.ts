@@ -0,0 +1,208 @@
+import { Category, LinkItem, SyncJournal, Tombstone } from "../types";
+import { spaceStorageKey } from "./spaceService";
+
+// Deletions older than this are assumed to have reached every copy
+const TOMBSTONE_TTL_MS = 90 * 24 * 3600 * 1000;
+
+const journalKey = () => spaceStorageKey('cloudnav_sync_journal');
+
+type SyncItem = LinkItem | Category;
+type SyncKind = Tombstone['kind'];
+
+export interface SyncData {
+  links: LinkItem[];
+  categories: Category[];
+}
+
+export interface SyncSideSummary {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+// Names of what changed on each side: `local` is this browser, `remote` the WebDAV copy
+export interface SyncSummary {
+  local: SyncSideSummary;
+  remote: SyncSideSummary;
+}
+
+export interface SyncResult extends SyncData {
+  journal: SyncJournal;
+  summary: SyncSummary;
+}
+
+const emptyJournal = (): SyncJournal => ({ modifiedAt: {}, tombstones: [] });
+
+const itemKey = (kind: SyncKind, id: string) => `${kind}:${id}`;
+
+// The server stores normalized URLs; this only has to see past scheme, `www.` and a trailing slash
+const urlKey = (url: string) => url.trim().replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/(?=$|[?#])/, '').toLowerCase();
+
+// Link check results are not edits
+const fingerprint = (item: SyncItem) => {
+  const { health, ...rest } = item as LinkItem;
+  return JSON.stringify(rest);
+};
+
+const itemName = (kind: SyncKind, item: SyncItem) => kind === 'link' ? (item as LinkItem).title : (item as Category).name;
+
+export const loadSyncJournal = (): SyncJournal => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(journalKey()) || 'null');
+    return stored && stored.modifiedAt && Array.isArray(stored.tombstones) ? stored : emptyJournal();
+  } catch (e) {
+    return emptyJournal();
+  }
+};
+
+export const saveSyncJournal = (journal: SyncJournal) => {
+  localStorage.setItem(journalKey(), JSON.stringify(journal));
+};
+
+// Drops expired tombstones, and those of items that exist again
+const pruneJournal = (journal: SyncJournal, data: SyncData, now: number): SyncJournal => {
+  const present = new Set([
+    ...data.links.map(l => itemKey('link', l.id)),
+    ...data.categories.map(c => itemKey('category', c.id)),
+  ]);
+  return {
+    modifiedAt: Object.fromEntries(Object.entries(journal.modifiedAt).filter(([key]) => present.has(key))),
+    tombstones: journal.tombstones.filter(t => !present.has(itemKey(t.kind, t.id)) && now - t.deletedAt < TOMBSTONE_TTL_MS),
+  };
+};
+
+/**
+ * Notes in this browser's journal what changed between two versions of the local
+ * data: edited and new items get a timestamp, removed ones a tombstone.
+ */
+export const recordLocalChanges = (before: SyncData, after: SyncData, now: number = Date.now()) => {
+  const journal = loadSyncJournal();
+  const diff = <T extends SyncItem>(kind: SyncKind, prev: T[], next: T[]) => {
+    const prevMap = new Map(prev.map(item => [item.id, fingerprint(item)]));
+    const nextIds = new Set(next.map(item => item.id));
+    next.forEach(item => {
+      if (prevMap.get(item.id) !== fingerprint(item)) journal.modifiedAt[itemKey(kind, item.id)] = now;
+    });
+    prev.forEach(item => {
+      if (nextIds.has(item.id)) return;
+      journal.tombstones = journal.tombstones.filter(t => itemKey(t.kind, t.id) !== itemKey(kind, item.id));
+      journal.tombstones.push({ kind, id: item.id, ...(kind === 'link' ? { url: (item as LinkItem).url } : {}), deletedAt: now });
+    });
+  };
+  diff('link', before.links, after.links);
+  diff('category', before.categories, after.categories);
+  saveSyncJournal(pruneJournal(journal, after, now));
+};
+
+const tombstoneMap = (journal: SyncJournal, kind: SyncKind) =>
+  new Map(journal.tombstones.filter(t => t.kind === kind).map(t => [t.id, t]));
+
+/**
+ * Merges one list. Items are matched by id, then (for links) by URL; when both
+ * sides changed an item the later change wins, and an item deleted on one side
+ * stays deleted unless the other side changed it after the deletion.
+ */
+const mergeList = <T extends SyncItem>(
+  kind: SyncKind,
+  local: T[],
+  remote: T[],
+  localJournal: SyncJournal,
+  remoteJournal: SyncJournal,
+  summary: SyncSummary,
+  prependRemoteAdds: boolean
+): T[] => {
+  const localMap = new Map(local.map(item => [item.id, item]));
+  const localTombs = tombstoneMap(localJournal, kind);
+  const remoteTombs = tombstoneMap(remoteJournal, kind);
+  const changedAt = (journal: SyncJournal, item: T) => journal.modifiedAt[itemKey(kind, item.id)] ?? (item as LinkItem).createdAt ?? 0;
+
+  // The same page added on both sides under different ids is one link; it keeps the local id
+  const remoteIds = new Set(remote.map(item => item.id));
+  const unmatchedLocalByUrl = new Map(
+    kind === 'link' ? local.filter(item => !remoteIds.has(item.id)).map(item => [urlKey((item as LinkItem).url), item] as const) : []
+  );
+  const remoteItems = remote.map(item => {
+    if (kind !== 'link' || localMap.has(item.id) || localTombs.has(item.id)) return item;
+    const match = unmatchedLocalByUrl.get(urlKey((item as LinkItem).url));
+    if (!match) return item;
+    unmatchedLocalByUrl.delete(urlKey((item as LinkItem).url));
+    const journal = remoteJournal.modifiedAt;
+    if (journal[itemKey(kind, item.id)] !== undefined) journal[itemKey(kind, match.id)] = journal[itemKey(kind, item.id)];
+    return { ...item, id: match.id };
+  });
+  const remoteMap = new Map(remoteItems.map(item => [item.id, item]));
+
+  const merged: T[] = [];
+  for (const item of local) {
+    const other = remoteMap.get(item.id);
+    if (other) {
+      if (fingerprint(item) === fingerprint(other) || changedAt(remoteJournal, other) <= changedAt(localJournal, item)) {
+        if (fingerprint(item) !== fingerprint(other)) summary.remote.updated.push(itemName(kind, item));
+        merged.push(item);
+      } else {
+        summary.local.updated.push(itemName(kind, other));
+        merged.push(kind === 'link' ? { ...other, health: (item as LinkItem).health } : other);
+      }
+      continue;
+    }
+    const deleted = remoteTombs.get(item.id);
+    if (deleted && deleted.deletedAt >= changedAt(localJournal, item)) {
+      summary.local.removed.push(itemName(kind, item));
+    } else {
+      summary.remote.added.push(itemName(kind, item));
+      merged.push(item);
+    }
+  }
+
+  const remoteAdds: T[] = [];
+  for (const item of remoteItems) {
+    if (localMap.has(item.id)) continue;
+    const deleted = localTombs.get(item.id);
+    if (deleted && deleted.deletedAt >= changedAt(remoteJournal, item)) {
+      summary.remote.removed.push(itemName(kind, item));
+    } else {
+      summary.local.added.push(itemName(kind, item));
+      remoteAdds.push(item);
+    }
+  }
+
+  return prependRemoteAdds ? [...remoteAdds, ...merged] : [...merged, ...remoteAdds];
+};
+
+/**
+ * Two-way merge of the local data with a synced copy (`remote`, null when there is
+ * none yet). Returns what both sides should hold afterwards, the combined journal
+ * to store here and upload with it, and what changed on each side.
+ */
+export const mergeForSync = (
+  local: SyncData,
+  localJournal: SyncJournal,
+  remote: SyncData | null,
+  remoteJournal: SyncJournal = emptyJournal(),
+  now: number = Date.now()
+): SyncResult => {
+  const summary: SyncSummary = {
+    local: { added: [], updated: [], removed: [] },
+    remote: { added: [], updated: [], removed: [] },
+  };
+  // mergeList re-keys URL matches in here, so work on a copy
+  const theirs: SyncJournal = { modifiedAt: { ...remoteJournal.modifiedAt }, tombstones: remoteJournal.tombstones };
+
+  const categories = mergeList('category', local.categories, remote?.categories || [], localJournal, theirs, summary, false);
+  const categoryIds = new Set(categories.map(c => c.id));
+  const fallback = categories.find(c => c.id === 'common') || categories[0];
+  // Links whose category was deleted on the other side move to "common", like deleting a category here does
+  const links = mergeList('link', local.links, remote?.links || [], localJournal, theirs, summary, true)
+    .map(l => categoryIds.has(l.categoryId) || !fallback ? l : { ...l, categoryId: fallback.id });
+
+  const modifiedAt = { ...localJournal.modifiedAt };
+  Object.entries(theirs.modifiedAt).forEach(([key, at]) => { modifiedAt[key] = Math.max(modifiedAt[key] ?? 0, at); });
+  const tombstones = new Map<string, Tombstone>();
+  [...localJournal.tombstones, ...theirs.tombstones].forEach(t => {
+    const key = itemKey(t.kind, t.id);
+    if ((tombstones.get(key)?.deletedAt ?? -1) < t.deletedAt) tombstones.set(key, t);
+  });
+
+  const data = { links, categories };
+  return { ...data, journal: pruneJournal({ modifiedAt, tombstones: [...tombstones.values()] }, data, now), summary };
+};
@@ -1,25 +1,29 @@
-
-import { Category, LinkItem, WebDavConfig } from "../types";
+import { BackupEncryptionKey, BackupEnvelope, BackupIntervalHours, BackupRetention, BackupRunStatus, EncryptedBackup, ServerWebDavConfig, WebDavBackupFile, WebDavConfig } from "../types";
+import { openBackup, ParsedBackup } from "./backupService";
+import { authHeaders } from "./authService";
+import { spaceUrl } from "./spaceService";
 
 // Helper to call our Cloudflare Proxy
-// This solves the CORS issue by delegating the request to the backend
-const callWebDavProxy = async (operation: 'check' | 'upload' | 'download', config: WebDavConfig, payload?: any) => {
+// This solves the CORS issue by delegating the request to the backend.
+// A config without a password makes the server use the one it has stored, which it only
+// does while the URL and username are the stored ones too.
+const callWebDavProxy = async (operation: 'check' | 'upload' | 'list' | 'download', config: Partial<WebDavConfig>, token: string, extra: { payload?: any, filename?: string } = {}) => {
     try {
-        const response = await fetch('/api/webdav', {
+        const response = await fetch(spaceUrl('/api/webdav'), {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
             body: JSON.stringify({
                 operation,
                 config,
-                payload
+                ...extra
             })
         });
-        
+
         if (!response.ok) {
             console.error(`WebDAV Proxy Error: ${response.status}`);
             return null;
         }
-        
+
         return await response.json();
     } catch (e) {
         console.error("WebDAV Proxy Network Error", e);
@@ -27,23 +31,74 @@ const callWebDavProxy = async (operation: 'check' | 'upload' | 'download', confi
     }
 }
 
-export const checkWebDavConnection = async (config: WebDavConfig): Promise<boolean> => {
-    if (!config.url || !config.username || !config.password) return false;
-    const result = await callWebDavProxy('check', config);
+export const checkWebDavConnection = async (config: Partial<WebDavConfig>, token: string): Promise<boolean> => {
+    if (!config.url || !config.username) return false;
+    const result = await callWebDavProxy('check', config, token);
     return result?.success === true;
 };
 
-export const uploadBackup = async (config: WebDavConfig, data: { links: LinkItem[], categories: Category[] }): Promise<boolean> => {
-    const result = await callWebDavProxy('upload', config, data);
+export const uploadBackup = async (config: Partial<WebDavConfig>, backup: BackupEnvelope | EncryptedBackup, token: string): Promise<boolean> => {
+    const result = await callWebDavProxy('upload', config, token, { payload: backup });
     return result?.success === true;
 };
 
-export const downloadBackup = async (config: WebDavConfig): Promise<{ links: LinkItem[], categories: Category[] } | null> => {
-    const result = await callWebDavProxy('download', config);
-    
-    // Check if the result looks like valid backup data
-    if (result && Array.isArray(result.links) && Array.isArray(result.categories)) {
-        return result as { links: LinkItem[], categories: Category[] };
-    }
-    return null;
+/**
+ * Backups in the WebDAV directory, newest first, or null when listing failed.
+ */
+export const listBackups = async (config: Partial<WebDavConfig>, token: string): Promise<WebDavBackupFile[] | null> => {
+    const result = await callWebDavProxy('list', config, token);
+    return Array.isArray(result?.files) ? result.files : null;
+};
+
+// Without a file name the newest backup is downloaded. Encrypted backups are opened
+// with the passphrase `getPassphrase` asks for.
+// Throws `BackupFormatError` when the file is not a backup this version can read,
+// `BackupPassphraseError` when it cannot be decrypted.
+export const downloadBackup = async (
+    config: Partial<WebDavConfig>,
+    token: string,
+    filename: string | undefined,
+    getPassphrase: () => Promise<string | null>
+): Promise<ParsedBackup | null> => {
+    const result = await callWebDavProxy('download', config, token, { filename });
+    return result ? openBackup(result, getPassphrase) : null;
+};
+
+/**
+ * The WebDAV target stored on the server, or null when none is configured.
+ */
+export const fetchServerWebDavConfig = async (token: string): Promise<ServerWebDavConfig | null> => {
+    const response = await fetch(spaceUrl('/api/webdav/config'), { headers: authHeaders(token) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return (await response.json()).config;
+};
+
+export interface WebDavConfigInput {
+    url: string;
+    username: string;
+    password?: string; // Left out to keep the stored password
+    enabled: boolean;
+    intervalHours: BackupIntervalHours;
+    retention?: BackupRetention;
+    encryption?: BackupEncryptionKey | null; // null stops encrypting scheduled backups; left out keeps the current key
+}
+
+export const saveServerWebDavConfig = async (token: string, config: WebDavConfigInput): Promise<ServerWebDavConfig> => {
+    const response = await fetch(spaceUrl('/api/webdav/config'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+        body: JSON.stringify(config),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return (await response.json()).config;
+};
+
+/**
+ * Backs up the server's data to the stored target right away.
+ */
+export const runServerBackup = async (token: string): Promise<BackupRunStatus> => {
+    const response = await fetch(spaceUrl('/api/webdav/run'), { method: 'POST', headers: authHeaders(token) });
+    const body = await response.json().catch(() => ({}));
+    if (!body.status) throw new Error(body.error || `HTTP ${response.status}`);
+    return body.status;
 };
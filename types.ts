@@ -8,13 +8,25 @@ export interface LinkItem {
   categoryId: string;
   createdAt: number;
   pinned?: boolean; // New field for pinning
+  health?: LinkHealth; // Set by the server's link checker, never sent by clients
+}
+
+export type LinkHealthStatus = 'ok' | 'redirect' | 'broken';
+
+export interface LinkHealth {
+  status: LinkHealthStatus;
+  httpStatus?: number;
+  finalUrl?: string; // Where redirects ended up, when that differs from the link's URL
+  error?: string; // Network failure or timeout
+  checkedAt: number;
 }
 
 export interface Category {
   id: string;
   name: string;
   icon: string; // Lucide icon name or emoji
-  password?: string; // Optional password for category protection
+  password?: string; // Write-only: sent when setting a password, never returned by the server
+  locked?: boolean; // Set by the server when the category is password protected
 }
 
 export interface SiteSettings {
@@ -31,6 +43,151 @@ export interface AppState {
   settings?: SiteSettings;
 }
 
+export interface AuthSession {
+  id: string;
+  device: string;
+  ip?: string;
+  createdAt: number;
+  expiresAt: number;
+  current?: boolean; // Set when listing: the session making the request
+}
+
+// Read-only public link to one category; `id` is the unguessable token in the URL
+export interface CategoryShare {
+  id: string;
+  categoryId: string;
+  label?: string;
+  createdAt: number;
+  expiresAt?: number; // Never expires when absent
+}
+
+// What a share URL renders
+export interface SharedCategory {
+  category: Category;
+  links: LinkItem[];
+  siteTitle?: string;
+  expiresAt?: number;
+}
+
+// A navigation space with its own data and password, served at /s/:id
+export interface SpaceInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// `admin` implies every other scope
+export type ApiTokenScope = 'link:add' | 'read' | 'admin';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['link:add', 'read', 'admin'];
+
+// Named token for the extension and scripts; the secret is only shown once, at creation
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+// What `/api/metadata` could read from a page; every field is optional because pages often omit them
+export interface PageMetadata {
+  url: string; // As requested
+  finalUrl: string; // After redirects
+  title?: string; // <title>
+  ogTitle?: string;
+  description?: string; // meta description, falling back to og:description
+  image?: string; // og:image
+  siteName?: string;
+  canonicalUrl?: string;
+  icon?: string; // Best <link rel="icon"> candidate, or /favicon.ico
+}
+
+export type AuditAction =
+  | 'storage.replace'
+  | 'link.create' | 'link.update' | 'link.delete'
+  | 'category.create' | 'category.update' | 'category.delete' | 'category.reorder'
+  | 'history.restore'
+  | 'token.create' | 'token.revoke'
+  | 'share.create' | 'share.revoke'
+  | 'space.create' | 'space.update' | 'space.delete'
+  | 'backup.save' | 'backup.delete'; // Server-side WebDAV / S3 backup target
+
+// Why a whole-document save happened, sent by the client as `X-Audit-Reason`
+export type AuditReason = 'import' | 'backup-restore' | 'conflict-merge' | 'webdav-sync';
+
+export const AUDIT_REASONS: AuditReason[] = ['import', 'backup-restore', 'conflict-merge', 'webdav-sync'];
+
+export interface AuditTarget {
+  type: 'link' | 'category' | 'settings' | 'token' | 'share' | 'space' | 'webdav' | 's3';
+  change: 'added' | 'removed' | 'updated';
+  id?: string; // For shares, the shared category's id
+  label?: string; // Title or name at the time; the host or bucket for backup targets
+}
+
+export interface AuditActor {
+  method: 'password' | 'session' | 'token';
+  id?: string; // Session or API token id
+  name?: string; // Device or token name
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: number;
+  action: AuditAction;
+  revision?: number; // Absent for changes outside the app data (tokens, shares, spaces, backup targets)
+  reason?: AuditReason;
+  restoredFrom?: number;
+  targets: AuditTarget[]; // Capped; `targetCount` has the full number
+  targetCount: number;
+  actor: AuditActor;
+}
+
+export interface FailedAttempt {
+  at: number;
+  ip: string;
+  scope: 'admin' | 'category';
+  target?: string; // Category name for category unlocks
+  userAgent?: string;
+  lockedFor?: number; // Seconds the IP was locked out after this attempt
+}
+
+export interface Lockout {
+  ip: string;
+  failures: number;
+  lockedUntil: number;
+}
+
+export interface ChangeCounts {
+  added: number;
+  removed: number;
+  updated: number;
+}
+
+// One entry per stored revision, newest first
+export interface RevisionSummary {
+  revision: number;
+  updatedAt: number;
+  linkCount: number;
+  categoryCount: number;
+  changes: { links: ChangeCounts; categories: ChangeCounts; settings: boolean };
+  restoredFrom?: number; // Set when the revision was created by a rollback
+}
+
+export interface ItemDiff<T> {
+  added: T[];
+  removed: T[];
+  updated: { before: T; after: T }[];
+}
+
+export interface RevisionDiff {
+  links: ItemDiff<LinkItem>;
+  categories: ItemDiff<Category>;
+  settings: boolean;
+}
+
 export interface WebDavConfig {
   url: string;
   username: string;
@@ -38,6 +195,133 @@ export interface WebDavConfig {
   enabled: boolean;
 }
 
+export type BackupTargetKind = 'webdav' | 's3';
+
+// An S3-compatible bucket (AWS, MinIO, R2...) backups are written to, under `prefix`
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://minio.internal:9000
+  region: string;
+  bucket: string;
+  prefix: string; // "" or ending in "/"
+  pathStyle: boolean; // endpoint/bucket/key instead of bucket.endpoint/key; MinIO needs this
+  accessKeyId: string;
+}
+
+// The stored S3 target as the server returns it: the secret key is never sent back
+export interface ServerS3Config extends S3Config {
+  hasSecret: boolean;
+  retention: BackupRetention;
+}
+
+// Everything a backup can restore. Only links and categories are required:
+// older backups, and backups taken by the server, carry nothing else.
+export interface BackupState {
+  links: LinkItem[];
+  categories: Category[];
+  settings?: SiteSettings;
+  searchEngines?: SearchEngine[];
+  aiConfig?: AIConfig;
+  webDavConfig?: WebDavConfig;
+  sync?: SyncJournal; // Written by two-way sync so the other side can tell edits and deletions apart
+}
+
+// A deleted link or category, remembered so a sync removes it on the other side instead of restoring it
+export interface Tombstone {
+  kind: 'link' | 'category';
+  id: string;
+  url?: string; // Links only
+  deletedAt: number;
+}
+
+// When each link and category last changed on one device, keyed `link:<id>` / `category:<id>`
+export interface SyncJournal {
+  modifiedAt: Record<string, number>;
+  tombstones: Tombstone[];
+}
+
+export const BACKUP_FORMAT = 'cloudnav-backup';
+export const BACKUP_VERSION = 1;
+
+// What WebDAV uploads and exported files contain. `apiKey` and the WebDAV password are
+// blanked unless the backup was made with `includesSecrets`.
+export interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  includesSecrets: boolean;
+  data: BackupState;
+}
+
+export const ENCRYPTED_BACKUP_FORMAT = 'cloudnav-backup-encrypted';
+
+// How the key was derived from the passphrase; `salt` is base64
+export interface BackupKdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string;
+}
+
+// A `BackupEnvelope` encrypted with AES-GCM. Everything needed to derive the key
+// again, except the passphrase, is in the header; `iv` and `data` are base64.
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  kdf: BackupKdfParams;
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+// A key derived in the browser, handed to the server so scheduled backups are encrypted too
+export interface BackupEncryptionKey {
+  kdf: BackupKdfParams;
+  key: string; // Raw AES-256 key, base64
+}
+
+// Hours between automatic backups; 0 turns them off
+export const BACKUP_INTERVAL_HOURS = [0, 1, 6, 12, 24, 168] as const;
+
+export type BackupIntervalHours = typeof BACKUP_INTERVAL_HOURS[number];
+
+// Which timestamped WebDAV backups survive an upload: the newest `keepLast`, plus the
+// newest of each of the last `keepDaily` days and `keepWeekly` weeks
+export interface BackupRetention {
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+export interface WebDavBackupFile {
+  name: string;
+  createdAt?: number;
+  size?: number;
+}
+
+export interface BackupRunStatus {
+  at: number;
+  ok: boolean;
+  trigger: 'schedule' | 'manual';
+  error?: string;
+  filename?: string;
+  linkCount?: number;
+  categoryCount?: number;
+}
+
+// WebDAV target kept by the server (GET /api/webdav/config); the password is stored encrypted and never returned
+export interface ServerWebDavConfig {
+  url: string;
+  username: string;
+  hasPassword: boolean;
+  enabled: boolean;
+  intervalHours: BackupIntervalHours;
+  retention: BackupRetention;
+  encrypted: boolean; // Scheduled backups are encrypted with a key derived from the backup passphrase
+  canEncrypt: boolean; // AUTH_SECRET is set; without it the stored key could be opened by anyone who can read storage
+  lastRun?: BackupRunStatus;
+  nextRunAt?: number;
+}
+
 export type AIProvider = 'gemini' | 'openai';
 
 export interface AIConfig {
@@ -0,0 +1,17 @@
+import type { Env } from '../functions/_lib/env';
+import { runDueBackups } from '../functions/_lib/backupSchedule';
+
+interface ExecutionContextLike {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+/**
+ * Pages Functions cannot run on a schedule, so automatic backups on Cloudflare come
+ * from this small Worker with a cron trigger. It must share the Pages project's
+ * storage binding (and AUTH_SECRET, if set) (see "定时备份" in the README).
+ */
+export default {
+  async scheduled(_controller: unknown, env: Env, ctx: ExecutionContextLike) {
+    ctx.waitUntil(runDueBackups(env));
+  },
+};